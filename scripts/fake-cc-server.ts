@@ -0,0 +1,57 @@
+import http from "http";
+import { FAKE_API_PREFIX, FAKE_AUTHZ_PREFIX, createFakeConstantContact } from "@/fake/constantContactServer";
+import { FIXTURE_ACCESS_TOKEN, FIXTURE_REFRESH_TOKEN } from "@/fake/fixtures";
+
+/**
+ * Serves the fake Constant Contact API over HTTP for offline development:
+ *   npm run fake-cc
+ * then copy the printed variables into .env.local and run `npm run dev`.
+ * State lives in memory and resets on restart.
+ */
+
+const port = Number(process.env.FAKE_CC_PORT ?? 4010);
+const origin = `http://localhost:${port}`;
+
+const fake = createFakeConstantContact({
+    accessTokenTtlS: process.env.FAKE_CC_TOKEN_TTL_S ? Number(process.env.FAKE_CC_TOKEN_TTL_S) : undefined,
+});
+
+const server = http.createServer(async (req, res) => {
+    try {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+        const body = chunks.length > 0 ? Buffer.concat(chunks) : undefined;
+
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(req.headers)) {
+            if (typeof value === "string") headers.set(name, value);
+            else if (Array.isArray(value)) headers.set(name, value.join(", "));
+        }
+
+        const response = await fake.handle(
+            new Request(`${origin}${req.url ?? "/"}`, {
+                method: req.method,
+                headers,
+                body: req.method === "GET" || req.method === "HEAD" ? undefined : body,
+            })
+        );
+
+        res.writeHead(response.status, Object.fromEntries(response.headers));
+        res.end(Buffer.from(await response.arrayBuffer()));
+        console.log(`${req.method} ${req.url} -> ${response.status}`);
+    } catch (e) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify([{ error_key: "server.error", error_message: String(e) }]));
+    }
+});
+
+server.listen(port, () => {
+    console.log(`Fake Constant Contact listening on ${origin}. Point the app at it with:\n`);
+    console.log(`CC_BASE_URL=${origin}${FAKE_API_PREFIX}`);
+    console.log(`CC_AUTHZ_BASE_URL=${origin}${FAKE_AUTHZ_PREFIX}`);
+    console.log(`CC_CLIENT_ID=fake-client`);
+    // Keep fake tokens out of the real token file
+    console.log(`CC_TOKEN_STORE=memory`);
+    console.log(`CC_ACCESS_TOKEN=${FIXTURE_ACCESS_TOKEN}`);
+    console.log(`CC_REFRESH_TOKEN=${FIXTURE_REFRESH_TOKEN}\n`);
+});
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiError";
+import { listAccounts } from "@/lib/constantContact";
+
+/**
+ * Connected Constant Contact accounts, for the account switcher.
+ * { accounts: [{ account_id, connected, connected_as }] }
+ */
+export async function GET() {
+    try {
+        return NextResponse.json({ accounts: await listAccounts() }, { status: 200 });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
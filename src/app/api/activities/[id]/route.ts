@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { resolveAccount } from "@/lib/accounts";
+import { badRequest, errorResponse } from "@/lib/apiError";
+import { ccFetchJson } from "@/lib/constantContact";
+
+/**
+ * Get Activity status (percent_done, activity_errors, result links)
+ */
+export async function GET(
+    req: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const { id } = await context.params;
+
+        if (!looksUuid(id)) {
+            return badRequest("Bad request: activity_id must be a UUID.");
+        }
+
+        const { status, data } = await ccFetchJson({
+            account: account.accountId,
+            path: `/activities/${encodeURIComponent(id)}`,
+        });
+
+        return NextResponse.json(data, { status });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
+
+/* ---------------- helpers ---------------- */
+
+function looksUuid(v: string): boolean {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v.trim());
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { resolveAccount } from "@/lib/accounts";
+import { ACTIVITY_STATES } from "@/lib/activities";
+import { badRequest, errorResponse } from "@/lib/apiError";
+import { ccFetchJson, withNextCursor } from "@/lib/constantContact";
+import type { ActivitiesResponse } from "@/types/constantContact";
+
+const ALLOWED_STATE = new Set<string>(ACTIVITY_STATES);
+
+/**
+ * List Activities (bulk imports, exports, deletes, list adds, ...)
+ */
+export async function GET(req: Request) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const url = new URL(req.url);
+        const sp = url.searchParams;
+
+        const q: Record<string, string | number | boolean | undefined> = {};
+
+        // cursor: from a previous response's next_cursor (sent on its own)
+        const cursorRaw = sp.get("cursor");
+        if (cursorRaw != null) {
+            const cursor = cursorRaw.trim();
+            if (!cursor) {
+                return badRequest("Bad request: cursor cannot be empty.");
+            }
+            q.cursor = cursor;
+        } else {
+            // limit: 1-500, default 50
+            const limit = clampInt(sp.get("limit") ?? "50", 1, 500);
+            if (limit == null) {
+                return badRequest("Bad request: limit must be an integer between 1 and 500.");
+            }
+            q.limit = limit;
+
+            // state: single activity state
+            const stateRaw = sp.get("state");
+            if (stateRaw) {
+                if (!ALLOWED_STATE.has(stateRaw)) {
+                    return badRequest(`Bad request: invalid state "${stateRaw}".`);
+                }
+                q.state = stateRaw;
+            }
+        }
+
+        const { status, data } = await ccFetchJson<ActivitiesResponse>({
+            account: account.accountId,
+            path: "/activities",
+            query: q,
+        });
+
+        return NextResponse.json(withNextCursor(data), { status });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
+
+/* ---------------- helpers ---------------- */
+
+function clampInt(v: string, min: number, max: number): number | null {
+    const n = Number.parseInt(v, 10);
+    if (Number.isNaN(n)) return null;
+    if (n < min || n > max) return null;
+    return n;
+}
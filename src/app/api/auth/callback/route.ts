@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ACCOUNT_COOKIE, isAccountId } from "@/lib/accounts";
+import { saveTokens } from "@/lib/constantContact";
+import { LOGIN_COOKIE, completeLogin, toStoredTokens, type PendingLogin } from "@/lib/oauth";
+
+/**
+ * OAuth redirect target for /api/auth/login.
+ *
+ * Verifies state against the login cookie, exchanges the code (with the PKCE verifier),
+ * checks the id_token nonce, then saves the tokens under the login's account and
+ * redirects to "/" with that account selected.
+ * Failures redirect to /setup?error=...
+ */
+export async function GET(req: NextRequest) {
+    const url = new URL(req.url);
+    const sp = url.searchParams;
+
+    const pending = parsePending(req.cookies.get(LOGIN_COOKIE)?.value);
+
+    let res: NextResponse;
+    try {
+        // Denied on the consent screen, or another authorization server error
+        const oauthError = sp.get("error");
+        if (oauthError) throw new Error(sp.get("error_description") || oauthError);
+
+        if (!pending) throw new Error("Login session expired or missing. Start the login again.");
+
+        const state = sp.get("state");
+        if (!state || state !== pending.state) throw new Error("Login failed: state does not match.");
+
+        const code = sp.get("code");
+        if (!code) throw new Error("Login failed: no authorization code was returned.");
+
+        const { tokens, connectedAs } = await completeLogin(code, pending);
+        await saveTokens(pending.account_id, {
+            ...toStoredTokens(tokens),
+            connected_as: connectedAs ?? undefined,
+        });
+
+        res = NextResponse.redirect(new URL("/", url.origin));
+        res.cookies.set(ACCOUNT_COOKIE, pending.account_id, {
+            path: "/",
+            sameSite: "lax",
+            maxAge: 365 * 24 * 60 * 60,
+        });
+    } catch (e) {
+        const target = new URL("/setup", url.origin);
+        target.searchParams.set("error", e instanceof Error ? e.message : String(e));
+        res = NextResponse.redirect(target);
+    }
+
+    // state/nonce/verifier are single use
+    res.cookies.set(LOGIN_COOKIE, "", { path: "/api/auth", maxAge: 0 });
+    return res;
+}
+
+/* ---------------- helpers ---------------- */
+
+function parsePending(raw: string | undefined): PendingLogin | null {
+    if (!raw) return null;
+    try {
+        const v = JSON.parse(raw);
+        const ok = ["state", "nonce", "code_verifier", "redirect_uri", "account_id"].every(
+            (k) => typeof v?.[k] === "string"
+        );
+        return ok && isAccountId(v.account_id) ? (v as PendingLogin) : null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { resolveAccount } from "@/lib/accounts";
+import { badRequest, errorResponse } from "@/lib/apiError";
+import { saveTokens } from "@/lib/constantContact";
+import { pollDeviceAuthorization, toStoredTokens } from "@/lib/oauth";
+
+/**
+ * Poll the device flow started by /api/auth/device/start.
+ *
+ * Body: { device_code }
+ * Responds with { status: "pending" | "slow_down" } until the user approves, then saves
+ * the tokens under the selected account (`?account=`, cookie or default) and responds
+ * with { status: "authorized", account_id, expires_at }.
+ * Tokens are never returned to the browser.
+ */
+export async function POST(req: Request) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const body = await req.json().catch(() => null);
+        const deviceCode = typeof body?.device_code === "string" ? body.device_code.trim() : "";
+        if (!deviceCode) {
+            return badRequest("Bad request: device_code is required.");
+        }
+
+        const result = await pollDeviceAuthorization(deviceCode);
+        if (result.status !== "authorized") {
+            return NextResponse.json({ status: result.status }, { status: 200 });
+        }
+
+        const tokens = toStoredTokens(result.tokens);
+        await saveTokens(account.accountId, tokens);
+
+        return NextResponse.json(
+            { status: "authorized", account_id: account.accountId, expires_at: tokens.expires_at ?? null },
+            { status: 200 }
+        );
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
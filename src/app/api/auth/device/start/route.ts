@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiError";
+import { startDeviceAuthorization } from "@/lib/oauth";
+
+/**
+ * Start the OAuth device flow (used by /setup).
+ *
+ * Responds with device_code, user_code, verification_uri(_complete), expires_in and interval.
+ * The user approves the user_code in a browser while the client polls /api/auth/device/poll.
+ */
+export async function POST() {
+    try {
+        const auth = await startDeviceAuthorization();
+
+        return NextResponse.json({ ...auth, interval: auth.interval ?? 5 }, { status: 200 });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
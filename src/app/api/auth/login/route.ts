@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { resolveAccount } from "@/lib/accounts";
+import { LOGIN_COOKIE, beginLogin } from "@/lib/oauth";
+
+/**
+ * Start the authorization code + PKCE flow: redirect the browser to Constant Contact.
+ * The tokens are saved under the selected account (`?account=`, cookie or default).
+ *
+ * state, nonce and the PKCE code_verifier are kept in a short-lived httpOnly cookie
+ * for /api/auth/callback. The redirect URI is CC_REDIRECT_URI, or this app's
+ * /api/auth/callback; it must be registered on the Constant Contact app.
+ */
+export async function GET(req: Request) {
+    const url = new URL(req.url);
+
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) throw new Error(account.error);
+
+        const redirectUri = process.env.CC_REDIRECT_URI || `${url.origin}/api/auth/callback`;
+        const { url: authorizeUrl, pending } = beginLogin(redirectUri, account.accountId);
+
+        const res = NextResponse.redirect(authorizeUrl);
+        res.cookies.set(LOGIN_COOKIE, JSON.stringify(pending), {
+            httpOnly: true,
+            sameSite: "lax",
+            secure: url.protocol === "https:",
+            path: "/api/auth",
+            maxAge: 10 * 60,
+        });
+        return res;
+    } catch (e) {
+        // Browser navigation, so report on the setup page rather than as JSON
+        const target = new URL("/setup", url.origin);
+        target.searchParams.set("error", e instanceof Error ? e.message : String(e));
+        return NextResponse.redirect(target);
+    }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { resolveAccount } from "@/lib/accounts";
+import { badRequest, errorResponse } from "@/lib/apiError";
+import { getConnectionStatus } from "@/lib/constantContact";
+
+/**
+ * Connection status of the selected account for the UI:
+ * { account_id, connected, connected_as, expires_at }. Never returns tokens.
+ */
+export async function GET(req: Request) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        return NextResponse.json(await getConnectionStatus(account.accountId), { status: 200 });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { upstreamError } from "@/test/ccMock"; // before the route, so it gets the stubbed client
+import { DELETE, GET, PUT } from "@/app/api/contacts/[id]/route";
+import { ccFetchJson } from "@/lib/constantContact";
+
+const fetchJson = vi.mocked(ccFetchJson);
+
+const CONTACT_ID = "4f0b1d2e-7c2e-4d1a-9b3f-000000000001";
+
+function params(id: string) {
+    return { params: Promise.resolve({ id }) };
+}
+
+function request(id: string, query = "", init?: RequestInit) {
+    return new Request(`http://localhost/api/contacts/${encodeURIComponent(id)}${query}`, init);
+}
+
+function put(id: string, body: unknown) {
+    return PUT(request(id, "", { method: "PUT", body: JSON.stringify(body) }), params(id));
+}
+
+beforeEach(() => {
+    vi.resetAllMocks();
+    fetchJson.mockResolvedValue({ status: 200, data: { contact_id: CONTACT_ID } });
+});
+
+describe("GET /api/contacts/:id", () => {
+    it.each([
+        ["not-a-uuid", "", "contact_id must be a UUID"],
+        [`${CONTACT_ID}0`, "", "contact_id must be a UUID"],
+        [CONTACT_ID, "?include=", "include cannot be empty"],
+        [CONTACT_ID, "?include=%20,%20", "include cannot be empty"],
+        [CONTACT_ID, "?include=notes,emails", 'invalid include "emails"'],
+        [CONTACT_ID, "?account=a/b", "account must be"],
+    ])("rejects %s%s with 400", async (id, query, message) => {
+        const res = await GET(request(id, query), params(id));
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toContain(message);
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("fetches the contact with the requested sub-resources", async () => {
+        const res = await GET(request(CONTACT_ID, "?include=notes,%20taggings"), params(CONTACT_ID));
+
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({ contact_id: CONTACT_ID });
+        expect(fetchJson).toHaveBeenCalledWith({
+            account: "default",
+            path: `/contacts/${CONTACT_ID}`,
+            query: { include: "notes,taggings" },
+        });
+    });
+
+    it("passes upstream errors through with their status and details", async () => {
+        fetchJson.mockRejectedValue(
+            upstreamError(404, "Contact not found.", { attempts: 1, response: [{ error_key: "contacts.api.not.found" }] })
+        );
+
+        const res = await GET(request(CONTACT_ID), params(CONTACT_ID));
+
+        expect(res.status).toBe(404);
+        expect(await res.json()).toEqual({
+            error: "Contact not found.",
+            code: "not_found",
+            status: 404,
+            request_id: expect.any(String),
+            details: { attempts: 1, response: [{ error_key: "contacts.api.not.found" }] },
+        });
+    });
+});
+
+describe("PUT /api/contacts/:id", () => {
+    it.each([
+        ["an invalid id", "nope", { first_name: "Ann" }, "contact_id must be a UUID"],
+        ["an invalid update_source", CONTACT_ID, { first_name: "Ann", update_source: "Robot" }, "update_source must be"],
+        ["email without permission", CONTACT_ID, { email: "a@b.org" }, "permission_to_send is required"],
+        ["no identifying field", CONTACT_ID, {}, "At least one of first_name"],
+        ["4 phone numbers", CONTACT_ID, { first_name: "Ann", phone_numbers: Array(4).fill({ phone_number: "5125550000" }) }, "phone_numbers can have at most 3 items"],
+        ["an unknown permission", CONTACT_ID, { email: "a@b.org", permission_to_send: "yes" }, "permission_to_send must be one of"],
+    ])("rejects %s with 400", async (_name, id, body, message) => {
+        const res = await put(id, body);
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toContain(message);
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("rejects a body that is not JSON with 400", async () => {
+        const res = await PUT(request(CONTACT_ID, "", { method: "PUT", body: "{first_name:" }), params(CONTACT_ID));
+
+        expect(res.status).toBe(400);
+        expect(await res.json()).toMatchObject({ error: "Bad request: body must be valid JSON.", code: "bad_request" });
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("accepts any Constant Contact permission on update", async () => {
+        const res = await put(CONTACT_ID, { email: "a@b.org", permission_to_send: "unsubscribed" });
+
+        expect(res.status).toBe(200);
+        expect(fetchJson).toHaveBeenCalledWith(
+            expect.objectContaining({
+                body: expect.objectContaining({
+                    email_address: { address: "a@b.org", permission_to_send: "unsubscribed" },
+                }),
+            })
+        );
+    });
+
+    it("sends the update with update_source", async () => {
+        const res = await put(CONTACT_ID, { first_name: "Ann", update_source: "Contact" });
+
+        expect(res.status).toBe(200);
+        expect(fetchJson).toHaveBeenCalledWith({
+            account: "default",
+            path: `/contacts/${CONTACT_ID}`,
+            method: "PUT",
+            body: { update_source: "Contact", first_name: "Ann" },
+        });
+    });
+
+    it("passes upstream errors through", async () => {
+        fetchJson.mockRejectedValue(upstreamError(409, "Email already exists", null));
+
+        const res = await put(CONTACT_ID, { first_name: "Ann" });
+
+        expect(res.status).toBe(409);
+        expect(await res.json()).toEqual({
+            error: "Email already exists",
+            code: "conflict",
+            status: 409,
+            request_id: expect.any(String),
+        });
+    });
+});
+
+describe("DELETE /api/contacts/:id", () => {
+    it("rejects an invalid id with 400", async () => {
+        const res = await DELETE(request("12345", "", { method: "DELETE" }), params("12345"));
+
+        expect(res.status).toBe(400);
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("answers 204 without a body", async () => {
+        fetchJson.mockResolvedValue({ status: 204, data: null });
+
+        const res = await DELETE(request(CONTACT_ID, "", { method: "DELETE" }), params(CONTACT_ID));
+
+        expect(res.status).toBe(204);
+        expect(await res.text()).toBe("");
+        expect(fetchJson).toHaveBeenCalledWith({ account: "default", path: `/contacts/${CONTACT_ID}`, method: "DELETE" });
+    });
+
+    it("passes upstream errors through", async () => {
+        fetchJson.mockRejectedValue(upstreamError(403, "Forbidden", { attempts: 1, response: null }));
+
+        const res = await DELETE(request(CONTACT_ID, "", { method: "DELETE" }), params(CONTACT_ID));
+
+        expect(res.status).toBe(403);
+    });
+});
@@ -1,5 +1,10 @@
 import { NextResponse } from "next/server";
+import { resolveAccount } from "@/lib/accounts";
+import { badRequest, errorResponse } from "@/lib/apiError";
 import { ccFetchJson } from "@/lib/constantContact";
+import { validateContact } from "@/lib/contactSchema";
+import { checkContactCustomFields } from "@/lib/customFieldDefinitions";
+import type { Contact } from "@/types/constantContact";
 
 const ALLOWED_INCLUDE = new Set([
     "custom_fields",
@@ -15,14 +20,16 @@ export async function GET(
     context: { params: Promise<{ id: string }> }
 ) {
     try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
         const { id } = await context.params;
 
         // 400 – validate contact_id (basic UUID sanity check)
         if (!looksUuid(id)) {
-            return NextResponse.json(
-                { error: "Bad request: contact_id must be a UUID." },
-                { status: 400 }
-            );
+            return badRequest("Bad request: contact_id must be a UUID.");
         }
 
         // include: optional csv with only allowed values
@@ -35,18 +42,12 @@ export async function GET(
             const values = parseCsv(includeRaw);
 
             if (values.length === 0) {
-                return NextResponse.json(
-                    { error: 'Bad request: include cannot be empty. Example: include=phone_numbers,street_addresses' },
-                    { status: 400 }
-                );
+                return badRequest('Bad request: include cannot be empty. Example: include=phone_numbers,street_addresses');
             }
 
             for (const v of values) {
                 if (!ALLOWED_INCLUDE.has(v)) {
-                    return NextResponse.json(
-                        { error: `Bad request: invalid include "${v}".` },
-                        { status: 400 }
-                    );
+                    return badRequest(`Bad request: invalid include "${v}".`);
                 }
             }
 
@@ -54,19 +55,102 @@ export async function GET(
         }
 
         // Call Constant Contact
-        const { status, data } = await ccFetchJson({
+        const { status, data } = await ccFetchJson<Contact>({
+            account: account.accountId,
             path: `/contacts/${encodeURIComponent(id)}`,
             query: include ? { include } : undefined,
         });
 
         // Preserve status (should be 200 on success)
         return NextResponse.json(data, { status });
-    } catch (e: any) {
+    } catch (e) {
+        // Pass through CC error status codes (401/403/404/500/503/etc.)
+        return errorResponse(e);
+    }
+}
+
+/**
+ * Update Contact (full replacement, requires update_source)
+ */
+export async function PUT(
+    req: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const { id } = await context.params;
+
+        // 400 – validate contact_id (basic UUID sanity check)
+        if (!looksUuid(id)) {
+            return badRequest("Bad request: contact_id must be a UUID.");
+        }
+
+        const body = await req.json().catch(() => undefined);
+        if (body === undefined) {
+            return badRequest("Bad request: body must be valid JSON.");
+        }
+
+        // Same validation rules as POST /api/contacts
+        const result = validateContact(body, "update");
+        if (!result.ok) {
+            return badRequest(result.error, result.fields);
+        }
+
+        // custom_fields values must match their field's type
+        const customFieldError = await checkContactCustomFields(result.payload, account.accountId);
+        if (customFieldError) {
+            return badRequest(customFieldError.error, customFieldError.fields);
+        }
+
+        const { status, data } = await ccFetchJson<Contact>({
+            account: account.accountId,
+            path: `/contacts/${encodeURIComponent(id)}`,
+            method: "PUT",
+            body: result.payload,
+        });
+
+        return NextResponse.json(data, { status });
+    } catch (e) {
+        // Pass through CC error status codes (400/401/404/409/500/etc.)
+        return errorResponse(e);
+    }
+}
+
+/**
+ * Delete Contact
+ */
+export async function DELETE(
+    req: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const { id } = await context.params;
+
+        // 400 – validate contact_id (basic UUID sanity check)
+        if (!looksUuid(id)) {
+            return badRequest("Bad request: contact_id must be a UUID.");
+        }
+
+        await ccFetchJson({
+            account: account.accountId,
+            path: `/contacts/${encodeURIComponent(id)}`,
+            method: "DELETE",
+        });
+
+        // 204 responses must not carry a body
+        return new NextResponse(null, { status: 204 });
+    } catch (e) {
         // Pass through CC error status codes (401/403/404/500/503/etc.)
-        return NextResponse.json(
-            { error: e.message ?? "Unknown error", details: e.details ?? null },
-            { status: e.status ?? 500 }
-        );
+        return errorResponse(e);
     }
 }
 
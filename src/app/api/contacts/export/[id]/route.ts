@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { resolveAccount } from "@/lib/accounts";
+import { badRequest, errorResponse } from "@/lib/apiError";
+import { ccFetchJson } from "@/lib/constantContact";
+
+/**
+ * Download the CSV produced by a completed contact_exports activity
+ * (the activity's _links.results.href points at /contact_exports/{id}).
+ */
+export async function GET(
+    req: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const { id } = await context.params;
+
+        if (!/^[\w-]+$/.test(id)) {
+            return badRequest("Bad request: invalid export id.");
+        }
+
+        const { data } = await ccFetchJson<string>({
+            account: account.accountId,
+            path: `/contact_exports/${encodeURIComponent(id)}`,
+            responseType: "text",
+        });
+
+        return new NextResponse(data, {
+            status: 200,
+            headers: {
+                "Content-Type": "text/csv; charset=utf-8",
+                "Content-Disposition": `attachment; filename="contacts-export-${id}.csv"`,
+            },
+        });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
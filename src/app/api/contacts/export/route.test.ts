@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import "@/test/ccMock"; // before the route, so it gets the stubbed client
+import { GET } from "@/app/api/contacts/export/route";
+import { ccFetchAll, ccFetchJson } from "@/lib/constantContact";
+
+const fetchJson = vi.mocked(ccFetchJson);
+const fetchAll = vi.mocked(ccFetchAll);
+
+const SEGMENT_ID = "42";
+const activity = { activity_id: "act-1", state: "initialized" };
+
+function get(query: string) {
+    return GET(new Request(`http://localhost/api/contacts/export${query}`));
+}
+
+beforeEach(() => {
+    vi.resetAllMocks();
+});
+
+describe("GET /api/contacts/export", () => {
+    it("returns small sets directly", async () => {
+        fetchJson.mockResolvedValue({ status: 200, data: { contacts: [], contacts_count: 1 } });
+        fetchAll.mockResolvedValue([{ contact_id: "c1", first_name: "Ann" }]);
+
+        const res = await get("?format=json&status=active");
+
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({ contacts: [{ contact_id: "c1", first_name: "Ann" }], contacts_count: 1 });
+    });
+
+    it("sends segments straight to the export activity, with only segment_id", async () => {
+        fetchJson.mockResolvedValue({ status: 201, data: activity });
+
+        const res = await get(`?segment_id=${SEGMENT_ID}&limit=10&include_count=true`);
+
+        expect(res.status).toBe(202);
+        expect(await res.json()).toEqual(activity);
+        expect(fetchJson).toHaveBeenCalledTimes(1);
+        expect(fetchJson).toHaveBeenCalledWith({
+            account: "default",
+            path: "/activities/contact_exports",
+            method: "POST",
+            body: { segment_id: SEGMENT_ID },
+        });
+        expect(fetchAll).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        [`?segment_id=${SEGMENT_ID}&status=active`, "segment_id cannot be combined with other filters"],
+        [`?segment_id=${SEGMENT_ID}&format=json`, "segment exports are only available as CSV"],
+    ])("rejects %s with 400", async (query, message) => {
+        const res = await get(query);
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toContain(message);
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("does not treat an unknown count as small", async () => {
+        fetchJson
+            .mockResolvedValueOnce({ status: 200, data: { contacts: [] } })
+            .mockResolvedValueOnce({ status: 201, data: activity });
+
+        const res = await get("?lists=list-1");
+
+        expect(res.status).toBe(202);
+        expect(await res.json()).toEqual(activity);
+        expect(fetchJson).toHaveBeenLastCalledWith({
+            account: "default",
+            path: "/activities/contact_exports",
+            method: "POST",
+            body: { list_ids: ["list-1"] },
+        });
+        expect(fetchAll).not.toHaveBeenCalled();
+    });
+});
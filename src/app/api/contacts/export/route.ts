@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import { resolveAccount } from "@/lib/accounts";
+import { badRequest, errorResponse } from "@/lib/apiError";
+import { ccFetchAll, ccFetchJson } from "@/lib/constantContact";
+import {
+    EXPORT_INCLUDE,
+    contactsToCsv,
+    isExportFormat,
+} from "@/lib/contactExport";
+import { parseContactsQuery } from "@/lib/contactQuery";
+import type { Activity, Contact, ContactsResponse } from "@/types/constantContact";
+
+// Up to this many contacts are paged through /contacts and returned directly;
+// anything larger goes through Constant Contact's contact_exports activity.
+const DIRECT_EXPORT_LIMIT = 5000;
+
+// Filters the contact_exports activity can express (segment_id is handled on its own)
+const ACTIVITY_FILTERS = new Set(["lists", "status"]);
+
+/**
+ * Export contacts matching the GET /api/contacts filters.
+ * - small sets: 200 with a CSV/JSON file attachment
+ * - large or uncounted sets, and segments (CSV only): 202 with the contact_exports
+ *   activity to poll
+ */
+export async function GET(req: Request) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const url = new URL(req.url);
+        const sp = url.searchParams;
+
+        // format: csv (default) | json
+        const format = (sp.get("format") ?? "csv").trim().toLowerCase();
+        if (!isExportFormat(format)) {
+            return badRequest('Bad request: format must be "csv" or "json".');
+        }
+
+        const parsed = parseContactsQuery(sp);
+        if (!parsed.ok) {
+            return badRequest(parsed.error);
+        }
+
+        // Paging and sub-resources are decided here, not by the caller
+        const filters = { ...parsed.query };
+        delete filters.limit;
+        delete filters.include_count;
+        delete filters.include;
+
+        // segment_id can only be combined with limit, so the segment can't be counted or
+        // exported with its sub-resources here: the activity exports it instead.
+        if (typeof filters.segment_id === "string") {
+            if (Object.keys(filters).length > 1) {
+                return badRequest("Bad request: segment_id cannot be combined with other filters.");
+            }
+            if (format === "json") {
+                return badRequest("Bad request: segment exports are only available as CSV. Use format=csv.");
+            }
+            const data = await startExportActivity(account.accountId, { segment_id: filters.segment_id });
+            return NextResponse.json(data, { status: 202 });
+        }
+
+        const { data: countData } = await ccFetchJson<ContactsResponse>({
+            account: account.accountId,
+            path: "/contacts",
+            query: { ...filters, limit: 1, include_count: true },
+        });
+        const total = typeof countData?.contacts_count === "number" ? countData.contacts_count : null;
+
+        // An unknown count is never assumed to be small
+        if (total != null && total <= DIRECT_EXPORT_LIMIT) {
+            const contacts = await ccFetchAll<Contact>(
+                {
+                    account: account.accountId,
+                    path: "/contacts",
+                    query: { ...filters, limit: 500, include: EXPORT_INCLUDE },
+                },
+                "contacts"
+            );
+
+            const filename = `contacts-${new Date().toISOString().slice(0, 10)}.${format}`;
+            const body = format === "csv"
+                ? contactsToCsv(contacts)
+                : JSON.stringify({ contacts, contacts_count: contacts.length }, null, 2);
+
+            return new NextResponse(body, {
+                status: 200,
+                headers: {
+                    "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+                    "Content-Disposition": `attachment; filename="${filename}"`,
+                },
+            });
+        }
+
+        // Large export: only the activity can handle it, and it only produces CSV
+        const matched = total == null ? "The matching contacts could not be counted" : `${total} contacts matched`;
+        if (format === "json") {
+            return badRequest(`Bad request: ${matched}; JSON export is limited to ${DIRECT_EXPORT_LIMIT} contacts. Use format=csv or narrow the filters.`);
+        }
+
+        const unsupported = Object.keys(filters).filter((k) => !ACTIVITY_FILTERS.has(k));
+        const statuses = typeof filters.status === "string" ? filters.status.split(",") : [];
+        if (unsupported.length > 0 || statuses.length > 1) {
+            return badRequest(`Bad request: ${matched}. Exports this large only support the lists and a single status filter.`);
+        }
+
+        const body: Record<string, unknown> = {};
+        if (typeof filters.lists === "string") body.list_ids = filters.lists.split(",");
+        if (statuses.length === 1 && statuses[0] !== "all") body.status = statuses[0];
+
+        const data = await startExportActivity(account.accountId, body);
+        return NextResponse.json(total == null ? data : { ...data, contacts_count: total }, { status: 202 });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
+
+/* ---------------- helpers ---------------- */
+
+async function startExportActivity(account: string, body: Record<string, unknown>) {
+    const { data } = await ccFetchJson<Activity>({
+        account,
+        path: "/activities/contact_exports",
+        method: "POST",
+        body,
+    });
+    return data;
+}
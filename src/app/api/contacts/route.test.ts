@@ -0,0 +1,364 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { upstreamError } from "@/test/ccMock"; // before the route, so it gets the stubbed client
+import { GET, POST } from "@/app/api/contacts/route";
+import { ccFetchAll, ccFetchJson, ccFetchJsonUntilReady } from "@/lib/constantContact";
+
+const fetchJson = vi.mocked(ccFetchJson);
+const fetchAll = vi.mocked(ccFetchAll);
+const fetchUntilReady = vi.mocked(ccFetchJsonUntilReady);
+
+const LIST_ID = "1f8e3a62-3d1b-11ef-9a2b-fa163e6b01c1";
+const FIELD_ID = "9a1b2c3d-4e5f-11ef-8c3d-fa163e6b01c1";
+
+function get(query = "") {
+    return GET(new Request(`http://localhost/api/contacts${query}`));
+}
+
+function post(body: unknown, query = "") {
+    return POST(
+        new Request(`http://localhost/api/contacts${query}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+        })
+    );
+}
+
+beforeEach(() => {
+    vi.resetAllMocks();
+    fetchJson.mockResolvedValue({ status: 200, data: { contacts: [], _links: {} } });
+});
+
+describe("GET /api/contacts", () => {
+    it.each([
+        ["?account=bad%20id", "account"],
+        ["?cursor=%20", "cursor cannot be empty"],
+        ["?limit=0", "limit must be an integer between 1 and 500"],
+        ["?limit=501", "limit must be an integer between 1 and 500"],
+        ["?limit=abc", "limit must be an integer between 1 and 500"],
+        ["?include_count=yes", "include_count must be true or false"],
+        ["?include=phone_numbers,emails", 'invalid include "emails"'],
+        ["?status=active,gone", 'invalid status "gone"'],
+        [`?lists=${Array(26).fill(LIST_ID).join(",")}`, "lists can have at most 25 items"],
+        [`?tags=${Array(51).fill(LIST_ID).join(",")}`, "tags can have at most 50 items"],
+        ["?sms_status=maybe", 'invalid sms_status "maybe"'],
+        ["?wait=soon", "wait must be true or false"],
+        ["?wait=true&wait_timeout=0", "wait_timeout must be an integer between 1 and 60"],
+        ["?wait=true&wait_timeout=61", "wait_timeout must be an integer between 1 and 60"],
+    ])("rejects %s with 400", async (query, message) => {
+        const res = await get(query);
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toContain(message);
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("builds the Constant Contact query from valid filters", async () => {
+        const res = await get(
+            "?limit=10&include=phone_numbers,%20taggings&status=active&include_count=TRUE&email=%20a@b.org%20&sms_status=explicit"
+        );
+
+        expect(res.status).toBe(200);
+        expect(fetchJson).toHaveBeenCalledWith({
+            account: "default",
+            path: "/contacts",
+            query: {
+                limit: 10,
+                include: "phone_numbers,taggings",
+                status: "active",
+                include_count: true,
+                email: "a@b.org",
+                sms_status: "explicit",
+            },
+            method: "GET",
+        });
+    });
+
+    it("sends a cursor on its own and exposes next_cursor", async () => {
+        fetchJson.mockResolvedValue({
+            status: 200,
+            data: { contacts: [], _links: { next: { href: "/v3/contacts?cursor=page3" } } },
+        });
+
+        const res = await get("?cursor=page2&limit=5");
+
+        expect(fetchJson).toHaveBeenCalledWith(expect.objectContaining({ query: { cursor: "page2" } }));
+        expect((await res.json()).next_cursor).toBe("page3");
+    });
+
+    it("uses the cc_account cookie to pick the account", async () => {
+        await GET(new Request("http://localhost/api/contacts", { headers: { cookie: "cc_account=client-a" } }));
+
+        expect(fetchJson).toHaveBeenCalledWith(expect.objectContaining({ account: "client-a" }));
+    });
+
+    it("preserves a 202 from a segment query", async () => {
+        fetchJson.mockResolvedValue({ status: 202, data: {} });
+
+        const res = await get("?segment_id=7");
+
+        expect(res.status).toBe(202);
+    });
+
+    it("waits for segment results with wait=true", async () => {
+        fetchUntilReady.mockResolvedValue({ status: 200, data: { contacts: [] } });
+
+        const res = await get("?segment_id=7&wait=true&wait_timeout=5");
+
+        expect(res.status).toBe(200);
+        expect(fetchUntilReady).toHaveBeenCalledWith(
+            expect.objectContaining({ query: { limit: 50, segment_id: "7" } }),
+            { timeoutMs: 5000 }
+        );
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("ignores wait_timeout without wait=true", async () => {
+        const res = await get("?wait_timeout=600");
+
+        expect(res.status).toBe(200);
+    });
+
+    it("clamps an out-of-range CC_SEGMENT_WAIT_TIMEOUT_S default", async () => {
+        vi.stubEnv("CC_SEGMENT_WAIT_TIMEOUT_S", "300");
+        vi.resetModules();
+        const route = await import("@/app/api/contacts/route");
+        const cc = await import("@/lib/constantContact");
+        vi.mocked(cc.ccFetchJson).mockResolvedValue({ status: 200, data: { contacts: [], _links: {} } });
+        vi.mocked(cc.ccFetchJsonUntilReady).mockResolvedValue({ status: 200, data: { contacts: [] } });
+
+        const plain = await route.GET(new Request("http://localhost/api/contacts"));
+        const waiting = await route.GET(new Request("http://localhost/api/contacts?segment_id=7&wait=true"));
+        vi.unstubAllEnvs();
+
+        expect(plain.status).toBe(200);
+        expect(waiting.status).toBe(200);
+        expect(cc.ccFetchJsonUntilReady).toHaveBeenCalledWith(expect.anything(), { timeoutMs: 60_000 });
+    });
+
+    it("passes upstream errors through with their status and details", async () => {
+        fetchJson.mockRejectedValue(
+            upstreamError(503, "Service unavailable", { attempts: 3, response: [{ error_key: "server.error" }] })
+        );
+
+        const res = await get();
+
+        expect(res.status).toBe(503);
+        expect(res.headers.get("X-Request-Id")).toEqual(expect.any(String));
+        expect(await res.json()).toEqual({
+            error: "Service unavailable",
+            code: "upstream_error",
+            status: 503,
+            request_id: res.headers.get("X-Request-Id"),
+            details: { attempts: 3, response: [{ error_key: "server.error" }] },
+        });
+    });
+
+    it("answers 500 for errors without a status", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        fetchJson.mockRejectedValue(new Error("Missing environment variable: CC_BASE_URL"));
+
+        const res = await get();
+
+        expect(res.status).toBe(500);
+        expect(await res.json()).toEqual({
+            error: "Missing environment variable: CC_BASE_URL",
+            code: "internal_error",
+            status: 500,
+            request_id: expect.any(String),
+        });
+    });
+});
+
+describe("POST /api/contacts", () => {
+    const sms = { sms_channel: { full_sms_address: "15125551234" } };
+    const consents = [{ sms_consent_permission: "explicit", consent_type: "promotional_sms" }];
+
+    it.each([
+        ["email without permission", { email_address: { address: "a@b.org" } }, "permission_to_send is required"],
+        ["implicit permission", { email: "a@b.org", permission_to_send: "implicit" }, 'permission_to_send must be "explicit"'],
+        ["an invalid email", { email: "a@b", permission_to_send: "explicit" }, "email_address must be a valid email address"],
+        ["an invalid create_source", { first_name: "Ann", create_source: "Import" }, 'create_source must be "Account" or "Contact"'],
+        ["a 51-character first name", { first_name: "A".repeat(51) }, "first_name can be at most 50 characters"],
+        ["a 51-character company name", { first_name: "Ann", company_name: "C".repeat(51) }, "company_name can be at most 50 characters"],
+        ["sms without consents", { ...sms }, "sms_channel_consents must be a non-empty JSON array"],
+        ["sms with an empty consents string", { ...sms, sms_channel_consents: "[]" }, "sms_channel_consents must be a non-empty JSON array"],
+        ["consents without an sms number", { first_name: "Ann", sms_channel_consents: consents }, "full_sms_address is required"],
+        ["an invalid sms number", { sms_channel: { full_sms_address: "call me", sms_channel_consents: consents } }, "full_sms_address must be a phone number"],
+        ["invalid JSON in an array field", { first_name: "Ann", notes: "[{" }, "notes must be a JSON array of objects"],
+        ["birthday month out of range", { first_name: "Ann", birthday_month: 13, birthday_day: 1 }, "birthday_month must be between 1 and 12"],
+        ["birthday month only", { first_name: "Ann", birthday_month: 4 }, "must be provided together"],
+        ["birthday day only", { first_name: "Ann", birthday_day: "12" }, "must be provided together"],
+        ["no identifying field", { job_title: "Director" }, "At least one of first_name"],
+        ["4 phone numbers", { first_name: "Ann", phone_numbers: Array(4).fill({ phone_number: "5125550000" }) }, "phone_numbers can have at most 3 items"],
+        ["4 addresses", { first_name: "Ann", street_addresses: JSON.stringify(Array(4).fill({ city: "Austin" })) }, "street_addresses can have at most 3 items"],
+        ["26 custom fields", { first_name: "Ann", custom_fields: Array(26).fill({ custom_field_id: FIELD_ID, value: "x" }) }, "custom_fields can have at most 25 items"],
+        ["151 notes", { first_name: "Ann", notes: Array(151).fill({ content: "hi" }) }, "notes can have at most 150 items"],
+        ["51 lists", { first_name: "Ann", list_memberships: Array(51).fill(LIST_ID).join(",") }, "list_memberships can have at most 50 items"],
+        ["51 tags", { first_name: "Ann", taggings: Array(51).fill(LIST_ID) }, "taggings can have at most 50 items"],
+    ])("rejects %s with 400", async (_name, body, message) => {
+        const res = await post(body);
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toContain(message);
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("reports every invalid field, keyed by field path", async () => {
+        const res = await post({ first_name: "A".repeat(51), email: "a@b.org", birthday_day: 3 });
+
+        expect(res.status).toBe(400);
+        expect(await res.json()).toEqual({
+            error: "Bad request: permission_to_send is required when email_address is provided.",
+            code: "bad_request",
+            status: 400,
+            request_id: expect.any(String),
+            fields: {
+                "email_address.permission_to_send": ["permission_to_send is required when email_address is provided."],
+                first_name: ["first_name can be at most 50 characters."],
+                birthday_month: ["birthday_month and birthday_day must be provided together."],
+            },
+        });
+    });
+
+    it("rejects a body that is not JSON with 400", async () => {
+        const res = await POST(new Request("http://localhost/api/contacts", { method: "POST", body: "{first_name:" }));
+
+        expect(res.status).toBe(400);
+        expect(await res.json()).toMatchObject({ error: "Bad request: body must be valid JSON.", code: "bad_request" });
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("rejects an invalid account with 400", async () => {
+        const res = await POST(
+            new Request("http://localhost/api/contacts?account=no%20spaces", {
+                method: "POST",
+                body: JSON.stringify({ first_name: "Ann" }),
+            })
+        );
+
+        expect(res.status).toBe(400);
+    });
+
+    it("rejects custom field values that do not match the definition", async () => {
+        fetchAll.mockResolvedValue([{ custom_field_id: FIELD_ID, label: "Joined", name: "joined", type: "date" }]);
+
+        const res = await post({ first_name: "Ann", custom_fields: [{ custom_field_id: FIELD_ID, value: "yesterday" }] });
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).fields).toEqual({
+            "custom_fields[0].value": ["value must be a date (YYYY-MM-DD or MM/DD/YYYY)."],
+        });
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("rejects unknown custom field IDs", async () => {
+        fetchAll.mockResolvedValue([]);
+
+        const res = await post({ first_name: "Ann", custom_fields: [{ custom_field_id: FIELD_ID, value: "x" }] });
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toContain("does not exist");
+    });
+
+    it("sends the normalized payload to Constant Contact", async () => {
+        fetchJson.mockResolvedValue({ status: 201, data: { contact_id: "new" } });
+
+        const res = await post({
+            email: " ann@example.org ",
+            permission_to_send: "explicit",
+            first_name: " Ann ",
+            birthday_month: "4",
+            birthday_day: 12,
+            list_memberships: `${LIST_ID}, `,
+            ...sms,
+            sms_channel_consents: JSON.stringify(consents),
+        });
+
+        expect(res.status).toBe(201);
+        expect(await res.json()).toEqual({ contact_id: "new" });
+        expect(fetchJson).toHaveBeenCalledWith({
+            account: "default",
+            path: "/contacts",
+            method: "POST",
+            body: {
+                create_source: "Account",
+                first_name: "Ann",
+                birthday_month: 4,
+                birthday_day: 12,
+                list_memberships: [LIST_ID],
+                email_address: { address: "ann@example.org", permission_to_send: "explicit" },
+                sms_channel: { full_sms_address: "+15125551234", sms_channel_consents: consents },
+            },
+        });
+    });
+
+    it("passes upstream errors through with their status and details", async () => {
+        fetchJson.mockRejectedValue(
+            upstreamError(409, "Email already exists", { attempts: 1, response: [{ error_key: "contacts.api.conflict" }] })
+        );
+
+        const res = await post({ first_name: "Ann" });
+
+        expect(res.status).toBe(409);
+        expect(await res.json()).toEqual({
+            error: "Email already exists",
+            code: "conflict",
+            status: 409,
+            request_id: expect.any(String),
+            details: { attempts: 1, response: [{ error_key: "contacts.api.conflict" }] },
+        });
+    });
+});
+
+describe("POST /api/contacts?mode=upsert", () => {
+    const ann = { email: "ann@example.org", permission_to_send: "explicit", first_name: "Ann", list_memberships: LIST_ID };
+
+    it("rejects an unknown mode with 400", async () => {
+        const res = await post(ann, "?mode=merge");
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toBe('Bad request: mode must be "create" or "upsert".');
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("requires an email address and a list", async () => {
+        const res = await post({ first_name: "Ann" }, "?mode=upsert");
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).fields).toEqual({
+            "email_address.address": ["email_address is required to update an existing contact."],
+            list_memberships: ["list_memberships must have at least one list to update an existing contact."],
+        });
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("sends the sign-up payload and answers 201 when the contact was created", async () => {
+        fetchJson.mockResolvedValue({ status: 200, data: { contact_id: "new", action: "created" } });
+
+        const res = await post({ ...ann, phone_numbers: [{ phone_number: "5125550000", kind: "mobile" }] }, "?mode=upsert");
+
+        expect(res.status).toBe(201);
+        expect(await res.json()).toEqual({ contact_id: "new", action: "created" });
+        expect(fetchJson).toHaveBeenCalledWith({
+            account: "default",
+            path: "/contacts/sign_up_form",
+            method: "POST",
+            body: {
+                email_address: "ann@example.org",
+                first_name: "Ann",
+                phone_number: "5125550000",
+                list_memberships: [LIST_ID],
+            },
+        });
+    });
+
+    it("answers 200 when an existing contact was updated", async () => {
+        fetchJson.mockResolvedValue({ status: 200, data: { contact_id: "old", action: "updated" } });
+
+        const res = await post(ann, "?mode=upsert");
+
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({ contact_id: "old", action: "updated" });
+    });
+});
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { resolveAccount } from "@/lib/accounts";
+import { badRequest, errorResponse } from "@/lib/apiError";
+import { ccFetchJson } from "@/lib/constantContact";
+import { buildCustomFieldPayload } from "@/lib/customFields";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Get Custom Field definition
+ */
+export async function GET(req: Request, context: RouteContext) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const { id } = await context.params;
+
+        if (!looksUuid(id)) {
+            return badRequest("Bad request: custom_field_id must be a UUID.");
+        }
+
+        const { status, data } = await ccFetchJson({
+            account: account.accountId,
+            path: `/contact_custom_fields/${encodeURIComponent(id)}`,
+        });
+
+        return NextResponse.json(data, { status });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
+
+/**
+ * Update Custom Field definition
+ */
+export async function PUT(req: Request, context: RouteContext) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const { id } = await context.params;
+
+        if (!looksUuid(id)) {
+            return badRequest("Bad request: custom_field_id must be a UUID.");
+        }
+
+        const body = await req.json().catch(() => undefined);
+        if (body === undefined) {
+            return badRequest("Bad request: body must be valid JSON.");
+        }
+
+        const result = buildCustomFieldPayload(body);
+        if (!result.ok) {
+            return badRequest(result.error);
+        }
+
+        const { status, data } = await ccFetchJson({
+            account: account.accountId,
+            path: `/contact_custom_fields/${encodeURIComponent(id)}`,
+            method: "PUT",
+            body: result.payload,
+        });
+
+        return NextResponse.json(data, { status });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
+
+/**
+ * Delete Custom Field definition
+ */
+export async function DELETE(req: Request, context: RouteContext) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const { id } = await context.params;
+
+        if (!looksUuid(id)) {
+            return badRequest("Bad request: custom_field_id must be a UUID.");
+        }
+
+        const { status, data } = await ccFetchJson({
+            account: account.accountId,
+            path: `/contact_custom_fields/${encodeURIComponent(id)}`,
+            method: "DELETE",
+        });
+
+        if (status === 204) {
+            return new NextResponse(null, { status: 204 });
+        }
+        return NextResponse.json(data, { status });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
+
+/* ---------------- helpers ---------------- */
+
+function looksUuid(v: string): boolean {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v.trim());
+}
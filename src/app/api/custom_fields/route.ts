@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { resolveAccount } from "@/lib/accounts";
+import { badRequest, errorResponse } from "@/lib/apiError";
+import { ccFetchJson, withNextCursor } from "@/lib/constantContact";
+import { buildCustomFieldPayload } from "@/lib/customFields";
+import type { CustomFieldsResponse } from "@/types/constantContact";
+
+/**
+ * List Custom Field definitions
+ */
+export async function GET(req: Request) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const url = new URL(req.url);
+        const sp = url.searchParams;
+
+        const q: Record<string, string | number | boolean | undefined> = {};
+
+        // cursor: from a previous response's next_cursor (sent on its own)
+        const cursorRaw = sp.get("cursor");
+        if (cursorRaw != null) {
+            const cursor = cursorRaw.trim();
+            if (!cursor) {
+                return badRequest("Bad request: cursor cannot be empty.");
+            }
+            q.cursor = cursor;
+        } else {
+            // limit: 1-100, default 50
+            const limit = clampInt(sp.get("limit") ?? "50", 1, 100);
+            if (limit == null) {
+                return badRequest("Bad request: limit must be an integer between 1 and 100.");
+            }
+            q.limit = limit;
+        }
+
+        const { status, data } = await ccFetchJson<CustomFieldsResponse>({
+            account: account.accountId,
+            path: "/contact_custom_fields",
+            query: q,
+        });
+
+        return NextResponse.json(withNextCursor(data), { status });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
+
+/**
+ * Create Custom Field definition
+ */
+export async function POST(req: Request) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const body = await req.json().catch(() => undefined);
+        if (body === undefined) {
+            return badRequest("Bad request: body must be valid JSON.");
+        }
+
+        const result = buildCustomFieldPayload(body);
+        if (!result.ok) {
+            return badRequest(result.error);
+        }
+
+        const { status, data } = await ccFetchJson({
+            account: account.accountId,
+            path: "/contact_custom_fields",
+            method: "POST",
+            body: result.payload,
+        });
+
+        return NextResponse.json(data, { status: status ?? 201 });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
+
+/* ---------------- helpers ---------------- */
+
+function clampInt(v: string, min: number, max: number): number | null {
+    const n = Number.parseInt(v, 10);
+    if (Number.isNaN(n)) return null;
+    if (n < min || n > max) return null;
+    return n;
+}
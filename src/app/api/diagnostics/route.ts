@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiError";
+import { getRateLimitStats } from "@/lib/constantContact";
+
+/**
+ * Request throttling diagnostics: limiter settings, queued requests and today's
+ * Constant Contact request count (per process, UTC day).
+ */
+export async function GET() {
+    try {
+        return NextResponse.json(getRateLimitStats(), { status: 200 });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import "@/test/ccMock"; // before the route, so it gets the stubbed client
+import { POST } from "@/app/api/imports/route";
+import { ccFetchJson } from "@/lib/constantContact";
+
+const fetchJson = vi.mocked(ccFetchJson);
+
+const CSV = ["Email,First Name", "ann@example.org,Ann", "not-an-email,Bob", ",Cy"].join("\n");
+
+function post(fields: Record<string, string> = {}) {
+    const form = new FormData();
+    form.set("file", new Blob([CSV], { type: "text/csv" }), "contacts.csv");
+    form.set("mapping", JSON.stringify({ Email: "email", "First Name": "first_name" }));
+    form.append("list_ids", "list-1");
+    for (const [key, value] of Object.entries(fields)) form.set(key, value);
+    return POST(new Request("http://localhost/api/imports", { method: "POST", body: form }));
+}
+
+beforeEach(() => {
+    vi.resetAllMocks();
+    fetchJson.mockResolvedValue({ status: 201, data: { activity_id: "act-1", state: "initialized" } });
+});
+
+describe("POST /api/imports", () => {
+    it("reports invalid rows as fields keyed by row and field", async () => {
+        const res = await post();
+
+        expect(res.status).toBe(400);
+        expect(await res.json()).toMatchObject({
+            error: "Bad request: 1 row(s) failed validation.",
+            code: "bad_request",
+            fields: { "rows[3].email_address.address": ["email_address must be a valid email address."] },
+        });
+        expect(fetchJson).not.toHaveBeenCalled();
+    });
+
+    it("skips invalid rows with skip_invalid=true", async () => {
+        const res = await post({ skip_invalid: "true" });
+
+        expect(res.status).toBe(201);
+        expect(await res.json()).toMatchObject({ activity_id: "act-1", rows_imported: 2, rows_skipped: 1 });
+    });
+});
@@ -0,0 +1,136 @@
+import { NextResponse } from "next/server";
+import { resolveAccount } from "@/lib/accounts";
+import { badRequest, errorResponse } from "@/lib/apiError";
+import { ccFetchJson } from "@/lib/constantContact";
+import {
+    MAX_IMPORT_LISTS,
+    MAX_IMPORT_ROWS,
+    MAX_IMPORT_TAGS,
+    isImportField,
+    mapRow,
+    parseCsvText,
+    validateImportRow,
+    type ImportMapping,
+} from "@/lib/contactImport";
+import type { Activity } from "@/types/constantContact";
+
+// contacts_json_import payloads are capped at 4 MB; keep uploads in the same range
+const MAX_FILE_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Start a bulk contact import from a CSV upload (multipart/form-data).
+ *
+ * Fields:
+ * - file: CSV with a header row
+ * - mapping: JSON object of CSV header -> contact field
+ * - list_ids: one entry per list (1-50, required by Constant Contact)
+ * - tag_ids: one entry per tag (optional, max 50)
+ * - skip_invalid: "true" to import only valid rows instead of rejecting the file
+ *
+ * Responds with Constant Contact's import activity (activity_id, state, ...).
+ */
+export async function POST(req: Request) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        let form: FormData;
+        try {
+            form = await req.formData();
+        } catch {
+            return badRequest("Bad request: body must be multipart/form-data.");
+        }
+
+        const file = form.get("file");
+        if (!(file instanceof Blob) || file.size === 0) {
+            return badRequest("Bad request: file is required.");
+        }
+        if (file.size > MAX_FILE_BYTES) {
+            return badRequest("Bad request: file can be at most 4 MB.");
+        }
+
+        // mapping: { "<csv header>": "<field>" }
+        let mapping: ImportMapping;
+        try {
+            const raw = JSON.parse(String(form.get("mapping") ?? ""));
+            if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error();
+            mapping = raw;
+        } catch {
+            return badRequest("Bad request: mapping must be a JSON object of CSV header to field.");
+        }
+        for (const [header, field] of Object.entries(mapping)) {
+            if (field && !isImportField(field)) {
+                return badRequest(`Bad request: invalid field "${field}" for column "${header}".`);
+            }
+        }
+        if (!Object.values(mapping).some(Boolean)) {
+            return badRequest("Bad request: map at least one column to a contact field.");
+        }
+
+        const listIds = form.getAll("list_ids").map(String).map((s) => s.trim()).filter(Boolean);
+        if (listIds.length === 0 || listIds.length > MAX_IMPORT_LISTS) {
+            return badRequest(`Bad request: list_ids must have between 1 and ${MAX_IMPORT_LISTS} items.`);
+        }
+
+        const tagIds = form.getAll("tag_ids").map(String).map((s) => s.trim()).filter(Boolean);
+        if (tagIds.length > MAX_IMPORT_TAGS) {
+            return badRequest(`Bad request: tag_ids can have at most ${MAX_IMPORT_TAGS} items.`);
+        }
+
+        const skipInvalid = String(form.get("skip_invalid") ?? "").trim().toLowerCase() === "true";
+
+        const [headers, ...dataRows] = parseCsvText(await file.text());
+        if (!headers || dataRows.length === 0) {
+            return badRequest("Bad request: file must have a header row and at least one data row.");
+        }
+        if (dataRows.length > MAX_IMPORT_ROWS) {
+            return badRequest(`Bad request: file can have at most ${MAX_IMPORT_ROWS} rows.`);
+        }
+
+        // Validate every row with the shared contact rules; the first 100 invalid rows are
+        // reported as fields keyed "rows[<n>].<path>"
+        const importData = [];
+        const rowErrors: Record<string, string> = {};
+        let invalidRows = 0;
+        for (const [i, values] of dataRows.entries()) {
+            const row = mapRow(headers, values, mapping);
+            const errors = validateImportRow(row);
+            if (!errors) {
+                importData.push(row);
+                continue;
+            }
+            if (++invalidRows > 100) continue;
+            for (const [path, message] of Object.entries(errors)) {
+                // row numbers are 1-based and count the header line, like a spreadsheet
+                rowErrors[`rows[${i + 2}].${path}`] = message;
+            }
+        }
+
+        if (invalidRows > 0 && !skipInvalid) {
+            return badRequest(`Bad request: ${invalidRows} row(s) failed validation.`, rowErrors);
+        }
+        if (importData.length === 0) {
+            return badRequest("Bad request: no valid rows to import.", rowErrors);
+        }
+
+        const { status, data } = await ccFetchJson<Activity>({
+            account: account.accountId,
+            path: "/activities/contacts_json_import",
+            method: "POST",
+            body: {
+                import_data: importData,
+                list_ids: listIds,
+                ...(tagIds.length ? { tag_ids: tagIds } : {}),
+            },
+        });
+
+        return NextResponse.json(
+            { ...data, rows_imported: importData.length, rows_skipped: invalidRows },
+            { status: status ?? 201 }
+        );
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { resolveAccount } from "@/lib/accounts";
+import { badRequest, errorResponse } from "@/lib/apiError";
+import { ccFetchJson, withNextCursor } from "@/lib/constantContact";
+import { buildTagPayload } from "@/lib/tagPayload";
+import type { ContactTagsResponse } from "@/types/constantContact";
+
+/**
+ * List Tags
+ */
+export async function GET(req: Request) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const url = new URL(req.url);
+        const sp = url.searchParams;
+
+        const q: Record<string, string | number | boolean | undefined> = {};
+
+        // cursor: from a previous response's next_cursor (sent on its own)
+        const cursorRaw = sp.get("cursor");
+        if (cursorRaw != null) {
+            const cursor = cursorRaw.trim();
+            if (!cursor) {
+                return badRequest("Bad request: cursor cannot be empty.");
+            }
+            q.cursor = cursor;
+        } else {
+            // limit: 1-500, default 50
+            const limit = clampInt(sp.get("limit") ?? "50", 1, 500);
+            if (limit == null) {
+                return badRequest("Bad request: limit must be an integer between 1 and 500.");
+            }
+            q.limit = limit;
+
+            // include_count: boolean
+            const includeCountRaw = sp.get("include_count");
+            if (includeCountRaw != null) {
+                const b = parseBoolean(includeCountRaw);
+                if (b == null) {
+                    return badRequest("Bad request: include_count must be true or false.");
+                }
+                q.include_count = b;
+            }
+        }
+
+        const { status, data } = await ccFetchJson<ContactTagsResponse>({
+            account: account.accountId,
+            path: "/contact_tags",
+            query: q,
+        });
+
+        return NextResponse.json(withNextCursor(data), { status });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
+
+/**
+ * Create Tag
+ */
+export async function POST(req: Request) {
+    try {
+        const account = resolveAccount(req);
+        if (!account.ok) {
+            return badRequest(account.error);
+        }
+
+        const body = await req.json().catch(() => undefined);
+        if (body === undefined) {
+            return badRequest("Bad request: body must be valid JSON.");
+        }
+
+        const result = buildTagPayload(body);
+        if (!result.ok) {
+            return badRequest(result.error);
+        }
+
+        const { status, data } = await ccFetchJson({
+            account: account.accountId,
+            path: "/contact_tags",
+            method: "POST",
+            body: result.payload,
+        });
+
+        return NextResponse.json(data, { status: status ?? 201 });
+    } catch (e) {
+        return errorResponse(e);
+    }
+}
+
+/* ---------------- helpers ---------------- */
+
+function parseBoolean(v: string): boolean | null {
+    const s = v.trim().toLowerCase();
+    if (s === "true") return true;
+    if (s === "false") return false;
+    return null;
+}
+
+function clampInt(v: string, min: number, max: number): number | null {
+    const n = Number.parseInt(v, 10);
+    if (Number.isNaN(n)) return null;
+    if (n < min || n > max) return null;
+    return n;
+}
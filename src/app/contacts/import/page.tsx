@@ -0,0 +1,370 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { JobsPanel } from "@/components/JobsPanel";
+import { MultiSelect } from "@/components/MultiSelect";
+import { TagPicker } from "@/components/TagPicker";
+import { api } from "@/lib/api";
+import {
+    IMPORT_FIELDS,
+    guessMapping,
+    mapRow,
+    parseCsvText,
+    validateImportRow,
+    type ImportField,
+    type ImportMapping,
+} from "@/lib/contactImport";
+import type { ApiErrorResponse } from "@/types/api";
+import type { ContactList, ContactListsResponse } from "@/types/constantContact";
+
+const PREVIEW_ROWS = 20;
+
+type ImportResult = {
+    activity_id?: string;
+    state?: string;
+    rows_imported?: number;
+    rows_skipped?: number;
+};
+
+export default function ImportContactsPage() {
+    const [file, setFile] = useState<File | null>(null);
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [rows, setRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ImportMapping>({});
+    const [parseError, setParseError] = useState<string | null>(null);
+
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [errorDetails, setErrorDetails] = useState<unknown>(null);
+    // Invalid rows from the API, as "rows[<n>].<field>: message"
+    const [rowErrors, setRowErrors] = useState<string[]>([]);
+    const [result, setResult] = useState<ImportResult | null>(null);
+
+    // Contact lists for the list picker (at least one is required by Constant Contact)
+    const [lists, setLists] = useState<ContactList[]>([]);
+    const [listsLoading, setListsLoading] = useState(true);
+    const [listsError, setListsError] = useState<string | null>(null);
+
+    useEffect(() => {
+        api<ContactListsResponse>("/api/lists?limit=1000&status=active")
+            .then((data) => setLists(data?.lists ?? []))
+            .catch((e: Error) => setListsError(e.message || "Failed to load lists"))
+            .finally(() => setListsLoading(false));
+    }, []);
+
+    const listOptions = useMemo(
+        () =>
+            lists
+                .map((l) => ({ value: l.list_id, label: l.name }))
+                .sort((a, b) => a.label.localeCompare(b.label)),
+        [lists]
+    );
+
+    // Validate every row with the same rules as POST /api/contacts
+    const validation = useMemo(
+        () => rows.map((values) => validateImportRow(mapRow(headers, values, mapping))),
+        [rows, headers, mapping]
+    );
+    const invalidCount = validation.filter(Boolean).length;
+
+    async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+        const f = e.target.files?.[0] ?? null;
+        setFile(f);
+        setParseError(null);
+        setResult(null);
+        setError(null);
+        setHeaders([]);
+        setRows([]);
+        setMapping({});
+        if (!f) return;
+
+        const [head, ...data] = parseCsvText(await f.text());
+        if (!head || data.length === 0) {
+            setParseError("The file needs a header row and at least one data row.");
+            return;
+        }
+
+        setHeaders(head);
+        setRows(data);
+        setMapping(guessMapping(head));
+    }
+
+    async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+        e.preventDefault();
+        if (!file) return;
+
+        setSubmitting(true);
+        setError(null);
+        setErrorDetails(null);
+        setRowErrors([]);
+        setResult(null);
+
+        // list_ids / tag_ids / skip_invalid come from the form controls
+        const formData = new FormData(e.currentTarget);
+        formData.set("file", file);
+        formData.set("mapping", JSON.stringify(mapping));
+
+        if (formData.getAll("list_ids").length === 0) {
+            setSubmitting(false);
+            setError("Choose at least one list to import into.");
+            return;
+        }
+
+        try {
+            const res = await fetch("/api/imports", { method: "POST", body: formData });
+            const json = await res.json().catch(() => null);
+
+            if (!res.ok) {
+                const body = json as ApiErrorResponse | null;
+                setError(body?.error || `Failed to start import (${res.status})`);
+                setRowErrors(
+                    Object.entries(body?.fields ?? {}).map(([path, messages]) => `${path}: ${messages.join(" ")}`)
+                );
+                if (body?.details) setErrorDetails(body.details);
+                return;
+            }
+
+            setResult(json as ImportResult);
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : "Something went wrong");
+        } finally {
+            setSubmitting(false);
+        }
+    }
+
+    return (
+        <main className="min-h-screen bg-gray-50">
+            <div className="max-w-5xl mx-auto p-6 sm:p-8 font-sans text-gray-900">
+                <header className="flex flex-col gap-4 mb-6">
+                    <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                        <div>
+                            <h1 className="text-3xl font-bold tracking-tight text-gray-900">Import Contacts</h1>
+                            <p className="mt-2 text-gray-500">Upload a CSV, map its columns and add everyone to lists in one go.</p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                            <Link
+                                href="/"
+                                className="px-4 py-2 rounded-lg bg-gray-900 text-white hover:bg-gray-800 font-medium transition-colors shadow-sm"
+                            >
+                                View Contacts
+                            </Link>
+                        </div>
+                    </div>
+                </header>
+
+                {error && (
+                    <div className="mb-6 p-4 rounded-lg bg-red-50 border border-red-200 text-red-700">
+                        <p className="font-medium">{error}</p>
+                        {rowErrors.length > 0 && (
+                            <ul className="mt-2 list-disc pl-5 text-sm">
+                                {rowErrors.map((message) => (
+                                    <li key={message}>{message}</li>
+                                ))}
+                            </ul>
+                        )}
+                        {errorDetails != null && (
+                            <details className="mt-2">
+                                <summary className="cursor-pointer text-sm text-red-600 hover:text-red-800">
+                                    Show error details
+                                </summary>
+                                <pre className="mt-2 p-3 bg-red-100 rounded text-xs overflow-auto max-h-48">
+                                    {typeof errorDetails === "string"
+                                        ? errorDetails
+                                        : JSON.stringify(errorDetails, null, 2)}
+                                </pre>
+                            </details>
+                        )}
+                    </div>
+                )}
+
+                {result && (
+                    <div className="mb-6 p-4 rounded-lg bg-green-50 border border-green-200 text-green-800">
+                        <p className="font-medium">
+                            Import started: {result.rows_imported ?? 0} row(s) queued
+                            {result.rows_skipped ? `, ${result.rows_skipped} skipped` : ""}.
+                        </p>
+                        {result.activity_id && (
+                            <p className="mt-1 text-sm">
+                                Activity ID: <span className="font-mono">{result.activity_id}</span>
+                                {result.state && <> ({result.state})</>}
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                {result?.activity_id && (
+                    <div className="mb-6">
+                        <JobsPanel limit={5} trackIds={[result.activity_id]} />
+                    </div>
+                )}
+
+                <div className="mx-auto max-w-5xl rounded-2xl bg-white p-6 sm:p-10 shadow-sm border border-gray-200">
+                    <form onSubmit={handleSubmit} className="space-y-8">
+                        {/* Step 1: file */}
+                        <section className="space-y-2">
+                            <label htmlFor="file" className="block text-sm font-semibold text-gray-900">
+                                1. CSV file
+                            </label>
+                            <input
+                                id="file"
+                                type="file"
+                                accept=".csv,text/csv"
+                                onChange={handleFile}
+                                className="block w-full text-sm text-gray-700 file:mr-4 file:rounded-lg file:border-0 file:bg-gray-100 file:px-4 file:py-2 file:font-medium file:text-gray-700 hover:file:bg-gray-200"
+                            />
+                            {parseError && <p className="text-sm text-red-700">{parseError}</p>}
+                        </section>
+
+                        {headers.length > 0 && (
+                            <>
+                                {/* Step 2: column mapping */}
+                                <section className="space-y-3">
+                                    <h2 className="text-sm font-semibold text-gray-900">2. Map columns</h2>
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                        {headers.map((h) => (
+                                            <div key={h} className="space-y-1">
+                                                <label
+                                                    htmlFor={`map-${h}`}
+                                                    className="block text-sm font-medium text-gray-700 truncate"
+                                                    title={h}
+                                                >
+                                                    {h}
+                                                    <span className="ml-2 font-normal text-gray-400">
+                                                        e.g. {rows[0]?.[headers.indexOf(h)] || "—"}
+                                                    </span>
+                                                </label>
+                                                <select
+                                                    id={`map-${h}`}
+                                                    value={mapping[h] ?? ""}
+                                                    onChange={(e) =>
+                                                        setMapping((prev) => ({
+                                                            ...prev,
+                                                            [h]: e.target.value as ImportField | "",
+                                                        }))
+                                                    }
+                                                    className="block w-full rounded-lg border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-gray-900 sm:text-sm sm:leading-6"
+                                                >
+                                                    <option value="">Don&apos;t import</option>
+                                                    {IMPORT_FIELDS.map((f) => (
+                                                        <option key={f.value} value={f.value}>
+                                                            {f.label}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </section>
+
+                                {/* Step 3: validation preview */}
+                                <section className="space-y-3">
+                                    <h2 className="text-sm font-semibold text-gray-900">3. Preview</h2>
+                                    <p className="text-sm text-gray-600">
+                                        {rows.length} row(s): {rows.length - invalidCount} valid,{" "}
+                                        <span className={invalidCount ? "text-red-700 font-medium" : ""}>
+                                            {invalidCount} invalid
+                                        </span>
+                                        . Showing the first {Math.min(PREVIEW_ROWS, rows.length)}.
+                                    </p>
+                                    <div className="overflow-x-auto rounded-lg border border-gray-200">
+                                        <table className="min-w-full text-sm">
+                                            <thead className="bg-gray-50 text-left text-gray-700">
+                                                <tr>
+                                                    <th className="px-3 py-2 font-semibold">Row</th>
+                                                    {headers.map((h) => (
+                                                        <th
+                                                            key={h}
+                                                            className={[
+                                                                "px-3 py-2 font-semibold whitespace-nowrap",
+                                                                mapping[h] ? "" : "text-gray-400",
+                                                            ].join(" ")}
+                                                        >
+                                                            {h}
+                                                        </th>
+                                                    ))}
+                                                    <th className="px-3 py-2 font-semibold">Status</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-gray-100">
+                                                {rows.slice(0, PREVIEW_ROWS).map((values, i) => (
+                                                    <tr key={i} className={validation[i] ? "bg-red-50" : ""}>
+                                                        <td className="px-3 py-2 text-gray-500">{i + 2}</td>
+                                                        {headers.map((h, j) => (
+                                                            <td
+                                                                key={h}
+                                                                className={[
+                                                                    "px-3 py-2 whitespace-nowrap",
+                                                                    mapping[h] ? "text-gray-900" : "text-gray-400",
+                                                                ].join(" ")}
+                                                            >
+                                                                {values[j]}
+                                                            </td>
+                                                        ))}
+                                                        <td className="px-3 py-2">
+                                                            {validation[i] ? (
+                                                                <span className="text-red-700">
+                                                                    {Object.values(validation[i]).join(" ")}
+                                                                </span>
+                                                            ) : (
+                                                                <span className="text-green-700">OK</span>
+                                                            )}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                    {invalidCount > 0 && (
+                                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                                            <input
+                                                type="checkbox"
+                                                name="skip_invalid"
+                                                value="true"
+                                                className="rounded border-gray-300"
+                                            />
+                                            Skip the {invalidCount} invalid row(s) and import the rest
+                                        </label>
+                                    )}
+                                </section>
+
+                                {/* Step 4: lists + tags for every imported row */}
+                                <section className="space-y-3">
+                                    <h2 className="text-sm font-semibold text-gray-900">4. Lists and tags</h2>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <MultiSelect
+                                            label="Add to lists (required)"
+                                            name="list_ids"
+                                            options={listOptions}
+                                            loading={listsLoading}
+                                            error={listsError}
+                                            placeholder="Search lists..."
+                                            emptyText="No contact lists found."
+                                        />
+                                        <TagPicker label="Tag everyone with" name="tag_ids" />
+                                    </div>
+                                </section>
+
+                                <div className="flex items-center gap-3 pt-4">
+                                    <button
+                                        type="submit"
+                                        disabled={submitting}
+                                        className="px-4 py-2 rounded-lg bg-gray-900 text-white hover:bg-gray-800 font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {submitting ? "Starting import..." : "Start import"}
+                                    </button>
+                                    <Link
+                                        href="/"
+                                        className="px-4 py-2 rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 font-medium transition-colors"
+                                    >
+                                        View contacts
+                                    </Link>
+                                </div>
+                            </>
+                        )}
+                    </form>
+                </div>
+            </div>
+        </main>
+    );
+}
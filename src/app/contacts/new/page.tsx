@@ -2,177 +2,178 @@
 
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
-
-type Json = any;
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+    NotesEditor,
+    PhoneNumbersEditor,
+    SmsConsentPicker,
+    StreetAddressesEditor,
+} from "@/components/ContactFieldEditors";
+import { MultiSelect } from "@/components/MultiSelect";
+import { TagPicker } from "@/components/TagPicker";
+import { api } from "@/lib/api";
+import { toSignUpRequest, validateContact, type ContactPayload } from "@/lib/contactSchema";
+import { validateCustomFieldValues } from "@/lib/customFields";
+import type { ApiErrorResponse } from "@/types/api";
+import type {
+    ContactList,
+    ContactListsResponse,
+    CustomFieldDefinition,
+    CustomFieldsResponse,
+} from "@/types/constantContact";
 
 export default function NewContactPage() {
     const router = useRouter();
 
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [errorDetails, setErrorDetails] = useState<any>(null);
-
-    async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
-        e.preventDefault();
-        setLoading(true);
-        setError(null);
-        setErrorDetails(null);
-
-        const formData = new FormData(e.currentTarget);
-
-        const email = str(formData.get("email"));
-        const permissionToSend = str(formData.get("permission_to_send")) || "implicit";
-
-        const first = str(formData.get("first_name"));
-        const last = str(formData.get("last_name"));
-        const jobTitle = str(formData.get("job_title"));
-        const companyName = str(formData.get("company_name"));
-
-        const createSource = str(formData.get("create_source")) || "Account";
-
-        const birthdayMonth = numOrUndef(formData.get("birthday_month"));
-        const birthdayDay = numOrUndef(formData.get("birthday_day"));
-
-        const anniversary = str(formData.get("anniversary")) || undefined;
-
-        // SMS inputs
-        const smsFullAddress = str(formData.get("sms_full_address"));
-        const smsConsentsRaw = str(formData.get("sms_channel_consents"));
-
-        // Comma-separated fields
-        const listMembershipsRaw = str(formData.get("list_memberships"));
-        const taggingsRaw = str(formData.get("taggings"));
-
-        // JSON fields (arrays)
-        const customFieldsRaw = str(formData.get("custom_fields"));
-        const phoneNumbersRaw = str(formData.get("phone_numbers"));
-        const streetAddressesRaw = str(formData.get("street_addresses"));
-        const notesRaw = str(formData.get("notes"));
-
-        const hasAnySms =
-            Boolean(smsFullAddress) ||
-            (smsConsentsRaw && smsConsentsRaw.trim() !== "" && smsConsentsRaw.trim() !== "[]");
+    // Inline messages keyed by input name: from the shared schema as the user goes, and
+    // from the API after a submit (each cleared once its field is edited and left).
+    // otherErrors have no input to sit under.
+    const [fieldErrors, setFieldErrors] = useState<InputErrors>({});
+    const [serverFieldErrors, setServerFieldErrors] = useState<InputErrors>({});
+    const [otherErrors, setOtherErrors] = useState<string[]>([]);
+    const [errorDetails, setErrorDetails] = useState<unknown>(null);
+    const [requestId, setRequestId] = useState<string | null>(null);
+    // Update the contact with this email address instead of failing with a conflict
+    const [upsert, setUpsert] = useState(false);
+
+    // Blur only reveals errors for fields the user has left; a submit reveals them all
+    const touched = useRef(new Set<string>());
+    const submitted = useRef(false);
+
+    // Contact lists for the list memberships picker
+    const [lists, setLists] = useState<ContactList[]>([]);
+    const [listsLoading, setListsLoading] = useState(true);
+    const [listsError, setListsError] = useState<string | null>(null);
+
+    useEffect(() => {
+        api<ContactListsResponse>("/api/lists?limit=1000&status=active")
+            .then((data) => setLists(data?.lists ?? []))
+            .catch((e: Error) => setListsError(e.message || "Failed to load lists"))
+            .finally(() => setListsLoading(false));
+    }, []);
+
+    // Custom field definitions, one typed input each
+    const [customFieldDefs, setCustomFieldDefs] = useState<CustomFieldDefinition[]>([]);
+    const [customFieldsError, setCustomFieldsError] = useState<string | null>(null);
+
+    useEffect(() => {
+        api<CustomFieldsResponse>("/api/custom_fields?limit=100")
+            .then((data) => setCustomFieldDefs(data?.custom_fields ?? []))
+            .catch((e: Error) => setCustomFieldsError(e.message || "Failed to load custom fields"));
+    }, []);
+
+    const listOptions = useMemo(
+        () =>
+            lists
+                .map((l) => ({ value: l.list_id, label: l.name }))
+                .sort((a, b) => a.label.localeCompare(b.label)),
+        [lists]
+    );
 
-        // Validate: at least one of first_name, last_name, email_address, or sms_channel is required
-        if (!first && !last && !email && !hasAnySms) {
-            setLoading(false);
-            setError(
-                "At least one of First name, Last name, Email address, or SMS channel is required."
-            );
-            return;
+    // Same rules (and messages) as POST /api/contacts, plus the custom field types
+    function checkForm(form: HTMLFormElement): FormCheck {
+        const input = readContactForm(form, customFieldDefs);
+        const customFieldIds = input.custom_fields.map((cf) => cf.custom_field_id);
+        // The summary (for when no input can show the problem) is the first field message
+        const failed = (fields: Record<string, string | undefined>): FormCheck => ({
+            ...toInputErrors(fields, customFieldIds),
+            payload: null,
+            summary: Object.values(fields).find(Boolean) ?? "",
+            customFieldIds,
+        });
+
+        const result = validateContact(input, "create");
+        if (!result.ok) return failed(result.fields);
+
+        const custom = validateCustomFieldValues(input.custom_fields, customFieldDefs);
+        if (!custom.ok) return failed({ [custom.path]: custom.message });
+
+        if (upsert) {
+            const signUp = toSignUpRequest(result.payload);
+            if (!signUp.ok) return failed(signUp.fields);
         }
 
-        // If email is provided, require explicit permission
-        if (email && permissionToSend !== "explicit") {
-            setLoading(false);
-            setError(
-                "If an Email Address is provided, Permission to send must be set to 'explicit' (per Constant Contact requirements)."
-            );
-            return;
-        }
+        return { inputs: {}, other: [], payload: result.payload, summary: "", customFieldIds };
+    }
 
-        // Birthday dependency (month/day must be together)
-        if ((birthdayMonth && !birthdayDay) || (!birthdayMonth && birthdayDay)) {
-            setLoading(false);
-            setError("Birthday month and birthday day must be provided together.");
-            return;
-        }
+    const inputErrors = { ...serverFieldErrors, ...fieldErrors };
 
-        // Parse comma-separated fields into arrays
-        const listMemberships = parseCommaSeparated(listMembershipsRaw);
-        const taggings = parseCommaSeparated(taggingsRaw);
+    function showErrors(form: HTMLFormElement, inputs: InputErrors, other: string[], summary: string) {
+        const count = Object.keys(inputs).length;
+        setOtherErrors(other);
+        setError(count === 0 ? summary : count === 1 ? "Please fix the highlighted field." : `Please fix the ${count} highlighted fields.`);
+        focusFirstInvalid(form, inputs);
+    }
 
-        // Parse JSON array fields
-        let custom_fields: Json[] | undefined;
-        let phone_numbers: Json[] | undefined;
-        let street_addresses: Json[] | undefined;
-        let notes: Json[] | undefined;
-        let sms_channel_consents: Json[] | undefined;
+    function handleBlur(e: React.FocusEvent<HTMLFormElement>) {
+        // Row editor inputs have no name of their own: use their fieldset's
+        const name = e.target.getAttribute("name") ?? e.target.closest("fieldset[name]")?.getAttribute("name");
+        if (!name) return;
+        touched.current.add(name);
+        setServerFieldErrors((prev) => {
+            const next = { ...prev };
+            delete next[name];
+            return next;
+        });
+
+        const { inputs } = checkForm(e.currentTarget);
+        setFieldErrors(
+            Object.fromEntries(
+                Object.entries(inputs).filter(([field]) => submitted.current || touched.current.has(field))
+            )
+        );
+    }
 
-        try {
-            custom_fields = parseJsonArrayOrUndef(customFieldsRaw, "custom_fields");
-            phone_numbers = parseJsonArrayOrUndef(phoneNumbersRaw, "phone_numbers");
-            street_addresses = parseJsonArrayOrUndef(streetAddressesRaw, "street_addresses");
-            notes = parseJsonArrayOrUndef(notesRaw, "notes");
-            sms_channel_consents = parseJsonArrayOrUndef(smsConsentsRaw, "sms_channel_consents");
-        } catch (err: any) {
-            setLoading(false);
-            setError(err?.message || "Invalid JSON in one of the JSON fields.");
-            return;
-        }
+    async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+        e.preventDefault();
+        const form = e.currentTarget;
+        submitted.current = true;
+        setLoading(true);
+        setError(null);
+        setFieldErrors({});
+        setServerFieldErrors({});
+        setOtherErrors([]);
+        setErrorDetails(null);
+        setRequestId(null);
 
-        // If any sms fields are provided, require non-empty consents array
-        if (hasAnySms && (!sms_channel_consents || sms_channel_consents.length === 0)) {
+        const checked = checkForm(form);
+        if (!checked.payload) {
             setLoading(false);
-            setError(
-                "If SMS fields are provided, SMS channel consents must be a non-empty JSON array (per Constant Contact requirements)."
-            );
+            setFieldErrors(checked.inputs);
+            showErrors(form, checked.inputs, checked.other, checked.summary);
             return;
         }
 
-        // Build payload (omit empties)
-        const payload: any = {
-            create_source: createSource,
-
-            first_name: first || undefined,
-            last_name: last || undefined,
-            job_title: jobTitle || undefined,
-            company_name: companyName || undefined,
-
-            birthday_month: birthdayMonth ?? undefined,
-            birthday_day: birthdayDay ?? undefined,
-            anniversary,
-
-            custom_fields: custom_fields?.length ? custom_fields : undefined,
-            phone_numbers: phone_numbers?.length ? phone_numbers : undefined,
-            street_addresses: street_addresses?.length ? street_addresses : undefined,
-            notes: notes?.length ? notes : undefined,
-
-            list_memberships: listMemberships.length ? listMemberships : undefined,
-            taggings: taggings.length ? taggings : undefined,
-        };
-
-        if (email) {
-            payload.email_address = {
-                address: email,
-                permission_to_send: permissionToSend,
-            };
-        }
-
-        if (hasAnySms) {
-            payload.sms_channel = {
-                ...(smsFullAddress ? { sms_address: smsFullAddress } : {}),
-                ...(sms_channel_consents?.length ? { sms_channel_consents } : {}),
-            };
-        }
-
         try {
-            const res = await fetch("/api/contacts", {
+            const res = await fetch(upsert ? "/api/contacts?mode=upsert" : "/api/contacts", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(payload),
+                body: JSON.stringify(checked.payload),
             });
 
-            const json = await res.json().catch(() => null);
-
             if (!res.ok) {
-                if (res.status === 409) {
-                    throw new Error("That contact already exists (Conflict 409). Try a different email address.");
-                }
-                const errorMsg = json?.error || `Failed to create contact (${res.status})`;
-                setError(errorMsg);
-                if (json?.details) {
-                    setErrorDetails(json.details);
+                const json = (await res.json().catch(() => null)) as ApiErrorResponse | null;
+                if (json?.code === "conflict") {
+                    throw new Error(
+                        'That contact already exists (Conflict 409). Try a different email address, or tick "Update the contact if this email already exists".'
+                    );
                 }
-                setLoading(false);
+
+                // Field errors from our validation or from Constant Contact go next to their inputs
+                const { inputs, other } = toInputErrors(json?.fields ?? {}, checked.customFieldIds);
+                setServerFieldErrors(inputs);
+                showErrors(form, inputs, other, json?.error || `Failed to create contact (${res.status})`);
+                if (Object.keys(inputs).length === 0) setErrorDetails(json?.details ?? null);
+                setRequestId(json?.request_id ?? null);
                 return;
             }
 
             router.push("/");
             router.refresh();
-        } catch (err: any) {
-            setError(err.message || "Something went wrong");
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : "Something went wrong");
         } finally {
             setLoading(false);
         }
@@ -201,7 +202,14 @@ export default function NewContactPage() {
                 {error && (
                     <div className="mb-6 p-4 rounded-lg bg-red-50 border border-red-200 text-red-700">
                         <p className="font-medium">{error}</p>
-                        {errorDetails && (
+                        {otherErrors.length > 0 && (
+                            <ul className="mt-2 list-disc pl-5 text-sm">
+                                {otherErrors.map((message) => (
+                                    <li key={message}>{message}</li>
+                                ))}
+                            </ul>
+                        )}
+                        {errorDetails != null && (
                             <details className="mt-2">
                                 <summary className="cursor-pointer text-sm text-red-600 hover:text-red-800">
                                     Show API error details
@@ -213,31 +221,38 @@ export default function NewContactPage() {
                                 </pre>
                             </details>
                         )}
+                        {requestId && <p className="mt-2 text-xs text-red-500">Request ID: {requestId}</p>}
                     </div>
                 )}
 
                 <div className="mx-auto max-w-5xl rounded-2xl bg-white p-6 sm:p-10 shadow-sm border border-gray-200">
-                    <form onSubmit={handleSubmit} className="space-y-6">
+                    <form onSubmit={handleSubmit} onBlur={handleBlur} noValidate className="space-y-6">
                         {/* Row 1: Email address | Permission to send | First name */}
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                            <Input label="Email address" name="email" type="email" />
+                            <Input
+                                label="Email address"
+                                name="email_address"
+                                type="email"
+                                error={inputErrors.email_address}
+                            />
                             <Select
                                 label="Permission to send"
                                 name="permission_to_send"
+                                error={inputErrors.permission_to_send}
                                 defaultValue="implicit"
                                 options={[
                                     { value: "implicit", label: "implicit" },
                                     { value: "explicit", label: "explicit" },
                                 ]}
                             />
-                            <Input label="First name" name="first_name" />
+                            <Input label="First name" name="first_name" error={inputErrors.first_name} />
                         </div>
 
                         {/* Row 2: Last name | Job title | Company name */}
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                            <Input label="Last name" name="last_name" />
-                            <Input label="Job title" name="job_title" />
-                            <Input label="Company name" name="company_name" />
+                            <Input label="Last name" name="last_name" error={inputErrors.last_name} />
+                            <Input label="Job title" name="job_title" error={inputErrors.job_title} />
+                            <Input label="Company name" name="company_name" error={inputErrors.company_name} />
                         </div>
 
                         {/* Row 3: Create source | Birthday month | Birthday day */}
@@ -245,62 +260,92 @@ export default function NewContactPage() {
                             <Select
                                 label="Create source"
                                 name="create_source"
+                                error={inputErrors.create_source}
                                 defaultValue="Account"
                                 options={[
                                     { value: "Account", label: "Account" },
                                     { value: "Contact", label: "Contact" },
                                 ]}
                             />
-                            <Input label="Birthday month" name="birthday_month" type="number" />
-                            <Input label="Birthday day" name="birthday_day" type="number" />
+                            <Input
+                                label="Birthday month"
+                                name="birthday_month"
+                                type="number"
+                                error={inputErrors.birthday_month}
+                            />
+                            <Input
+                                label="Birthday day"
+                                name="birthday_day"
+                                type="number"
+                                error={inputErrors.birthday_day}
+                            />
                         </div>
 
-                        {/* Row 4: Anniversary | SMS full address | SMS channel consents */}
+                        {/* Row 4: Anniversary | SMS full address | SMS consent */}
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                            <Input label="Anniversary" name="anniversary" type="date" />
-                            <Input label="SMS full address" name="sms_full_address" />
-                            <Textarea
-                                label="SMS channel consents (JSON array)"
-                                name="sms_channel_consents"
-                                rows={3}
-                                defaultValue="[]"
+                            <Input label="Anniversary" name="anniversary" type="date" error={inputErrors.anniversary} />
+                            <Input
+                                label="SMS full address"
+                                name="full_sms_address"
+                                error={inputErrors.full_sms_address}
                             />
+                            <SmsConsentPicker error={inputErrors.sms_channel_consents} />
                         </div>
 
-                        {/* Row 5: List memberships | Taggings | Custom fields */}
+                        {/* Row 5: List memberships | Taggings */}
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                            <Input label="List memberships (comma separated)" name="list_memberships" />
-                            <Input label="Taggings (comma separated)" name="taggings" />
-                            <Textarea
-                                label="Custom fields (JSON array)"
-                                name="custom_fields"
-                                rows={3}
-                                defaultValue="[{}]"
+                            <MultiSelect
+                                label="List memberships"
+                                name="list_memberships"
+                                options={listOptions}
+                                loading={listsLoading}
+                                error={listsError}
+                                placeholder="Search lists..."
+                                emptyText="No contact lists found."
                             />
+                            <TagPicker label="Taggings" name="taggings" />
                         </div>
 
-                        {/* Row 6: Phone numbers | Street addresses | Notes */}
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                            <Textarea
-                                label="Phone numbers (JSON array)"
-                                name="phone_numbers"
-                                rows={3}
-                                defaultValue="[{}]"
-                            />
-                            <Textarea
-                                label="Street addresses (JSON array)"
-                                name="street_addresses"
-                                rows={3}
-                                defaultValue="[{}]"
-                            />
-                            <Textarea
-                                label="Notes (JSON array)"
-                                name="notes"
-                                rows={3}
-                                defaultValue="[{}]"
-                            />
+                        {/* Row 6: Phone numbers | Street addresses */}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <PhoneNumbersEditor error={inputErrors.phone_numbers} />
+                            <StreetAddressesEditor error={inputErrors.street_addresses} />
                         </div>
 
+                        {/* Row 7: Notes */}
+                        <NotesEditor error={inputErrors.notes} />
+
+                        {/* Custom fields: one typed input per defined field */}
+                        {(customFieldDefs.length > 0 || customFieldsError) && (
+                            <fieldset className="space-y-3">
+                                <legend className="text-sm font-semibold text-gray-900">Custom fields</legend>
+                                {customFieldsError ? (
+                                    <p className="text-sm text-red-700">{customFieldsError}</p>
+                                ) : (
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                        {customFieldDefs.map((def) => (
+                                            <CustomFieldInput
+                                                key={def.custom_field_id}
+                                                def={def}
+                                                error={inputErrors[customFieldInputName(def.custom_field_id)]}
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                            </fieldset>
+                        )}
+
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={upsert}
+                                onChange={(e) => setUpsert(e.target.checked)}
+                                className="rounded border-gray-300"
+                            />
+                            Update the contact if this email already exists
+                            <span className="text-gray-500">(needs an email address and at least one list)</span>
+                        </label>
+
                         {/* Buttons */}
                         <div className="flex items-center gap-3 pt-4">
                             <button
@@ -308,7 +353,7 @@ export default function NewContactPage() {
                                 disabled={loading}
                                 className="px-4 py-2 rounded-lg bg-gray-900 text-white hover:bg-gray-800 font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
                             >
-                                {loading ? "Saving..." : "Save contact"}
+                                {loading ? "Saving..." : upsert ? "Create or update contact" : "Save contact"}
                             </button>
                             <Link
                                 href="/"
@@ -332,12 +377,16 @@ function Input({
     type = "text",
     required,
     placeholder,
+    step,
+    error,
 }: {
     label: string;
     name: string;
     type?: string;
     required?: boolean;
     placeholder?: string;
+    step?: string;
+    error?: string;
 }) {
     return (
         <div className="space-y-1">
@@ -350,52 +399,66 @@ function Input({
                 type={type}
                 required={required}
                 placeholder={placeholder}
-                className="block w-full rounded-lg border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-gray-900 sm:text-sm sm:leading-6"
+                step={step}
+                aria-invalid={error ? true : undefined}
+                aria-describedby={error ? errorId(name) : undefined}
+                className={`block w-full rounded-lg border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm ring-1 ring-inset placeholder:text-gray-400 focus:ring-2 focus:ring-inset sm:text-sm sm:leading-6 ${ringClass(error)}`}
             />
+            <FieldError name={name} error={error} />
         </div>
     );
 }
 
-function Textarea({
-    label,
-    name,
-    placeholder,
-    rows = 5,
-    defaultValue,
-}: {
-    label: string;
-    name: string;
-    placeholder?: string;
-    rows?: number;
-    defaultValue?: string;
-}) {
+function FieldError({ name, error }: { name: string; error?: string }) {
+    if (!error) return null;
     return (
-        <div className="space-y-1">
-            <label htmlFor={name} className="block text-sm font-medium text-gray-700">
-                {label}
-            </label>
-            <textarea
-                id={name}
-                name={name}
-                rows={rows}
-                placeholder={placeholder}
-                defaultValue={defaultValue}
-                className="block w-full rounded-lg border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-gray-900 sm:text-sm sm:leading-6 font-mono"
-            />
-        </div>
+        <p id={errorId(name)} className="text-sm text-red-600">
+            {error}
+        </p>
     );
 }
 
+function CustomFieldInput({ def, error }: { def: CustomFieldDefinition; error?: string }) {
+    const name = customFieldInputName(def.custom_field_id);
+
+    switch (def.type) {
+        case "date":
+            return <Input label={def.label} name={name} type="date" error={error} />;
+        case "number":
+            return <Input label={def.label} name={name} type="number" step="any" error={error} />;
+        case "currency":
+            return <Input label={def.label} name={name} type="number" step="0.01" error={error} />;
+        case "boolean":
+            return (
+                <Select
+                    label={def.label}
+                    name={name}
+                    error={error}
+                    defaultValue=""
+                    options={[
+                        { value: "", label: "—" },
+                        { value: "true", label: "true" },
+                        { value: "false", label: "false" },
+                    ]}
+                />
+            );
+        default:
+            return <Input label={def.label} name={name} error={error} />;
+    }
+}
+
 function Select({
     label,
     name,
     options,
     defaultValue,
+    error,
 }: {
     label: string;
     name: string;
     options: { value: string; label: string }[];
     defaultValue?: string;
+    error?: string;
 }) {
     return (
         <div className="space-y-1">
@@ -406,7 +469,9 @@ function Select({
                 id={name}
                 name={name}
                 defaultValue={defaultValue}
-                className="block w-full rounded-lg border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-gray-900 sm:text-sm sm:leading-6"
+                aria-invalid={error ? true : undefined}
+                aria-describedby={error ? errorId(name) : undefined}
+                className={`block w-full rounded-lg border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm ring-1 ring-inset focus:ring-2 focus:ring-inset sm:text-sm sm:leading-6 ${ringClass(error)}`}
             >
                 {options.map((opt) => (
                     <option key={opt.value} value={opt.value}>
@@ -414,50 +479,133 @@ function Select({
                     </option>
                 ))}
             </select>
+            <FieldError name={name} error={error} />
         </div>
     );
 }
 
 /* ---------------------------- Helpers ---------------------------- */
 
+// Message per input name (e.g. "full_sms_address", "custom_field:<id>")
+type InputErrors = Record<string, string>;
+
+type FormCheck = {
+    payload: ContactPayload<"create"> | null;
+    inputs: InputErrors;
+    other: string[];
+    summary: string;
+    customFieldIds: string[];
+};
+
 function str(v: FormDataEntryValue | null) {
     return typeof v === "string" ? v.trim() : "";
 }
 
-function numOrUndef(v: FormDataEntryValue | null) {
-    const s = typeof v === "string" ? v.trim() : "";
-    if (!s) return undefined;
-    const n = Number(s);
-    return Number.isFinite(n) ? n : undefined;
+// The form's values in the shape validateContact reads
+function readContactForm(form: HTMLFormElement, customFieldDefs: CustomFieldDefinition[]) {
+    const formData = new FormData(form);
+
+    return {
+        email_address: {
+            address: str(formData.get("email_address")),
+            permission_to_send: str(formData.get("permission_to_send")),
+        },
+        first_name: str(formData.get("first_name")),
+        last_name: str(formData.get("last_name")),
+        job_title: str(formData.get("job_title")),
+        company_name: str(formData.get("company_name")),
+        create_source: str(formData.get("create_source")),
+        birthday_month: str(formData.get("birthday_month")),
+        birthday_day: str(formData.get("birthday_day")),
+        anniversary: str(formData.get("anniversary")),
+        sms_channel: {
+            full_sms_address: str(formData.get("full_sms_address")),
+            sms_channel_consents: str(formData.get("sms_channel_consents")),
+        },
+        phone_numbers: str(formData.get("phone_numbers")),
+        street_addresses: str(formData.get("street_addresses")),
+        notes: str(formData.get("notes")),
+        // Typed custom field inputs -> [{ custom_field_id, value }], skipping blanks
+        custom_fields: customFieldDefs
+            .map((def) => ({
+                custom_field_id: def.custom_field_id,
+                value: str(formData.get(customFieldInputName(def.custom_field_id))),
+            }))
+            .filter((cf) => cf.value),
+        // Multi-selects (one entry per selected list / tag)
+        list_memberships: formData.getAll("list_memberships").map(String),
+        taggings: formData.getAll("taggings").map(String),
+    };
 }
 
-function parseCommaSeparated(raw: string): string[] {
-    if (!raw || !raw.trim()) return [];
-    return raw
-        .split(",")
-        .map((s) => s.trim())
-        .filter(Boolean);
+/**
+ * Sort field errors (from validateContact or the API's `fields`; both are keyed by the
+ * same request body paths) onto the inputs that show them. `customFieldIds` are the IDs of the custom_fields sent, in order, so
+ * "custom_fields[1]" finds its input. Messages with no input end up in `other`.
+ */
+function toInputErrors(
+    fields: Record<string, string | string[] | undefined>,
+    customFieldIds: string[]
+): { inputs: InputErrors; other: string[] } {
+    const inputs: InputErrors = {};
+    const other: string[] = [];
+
+    for (const [path, messages] of Object.entries(fields)) {
+        const message = Array.isArray(messages) ? messages[0] : messages;
+        if (!message) continue;
+
+        const input = inputForPath(path, customFieldIds);
+        if (input) inputs[input] ??= message;
+        else other.push(message);
+    }
+    return { inputs, other };
 }
 
-function parseJsonArrayOrUndef(raw: string, fieldName: string) {
-    const val = (raw || "").trim();
-    if (!val || val === "[]" || val === "[{}]") return undefined;
-
-    let parsed: any;
-    try {
-        parsed = JSON.parse(val);
-    } catch {
-        throw new Error(`${fieldName} must be valid JSON.`);
-    }
-    if (!Array.isArray(parsed)) {
-        throw new Error(`${fieldName} must be a JSON array (e.g. []).`);
-    }
-    // Filter out empty objects
-    const filtered = parsed.filter((item: any) => {
-        if (typeof item === "object" && item !== null) {
-            return Object.keys(item).length > 0;
+// "sms_channel.full_sms_address" → "full_sms_address", "phone_numbers[1].kind" → "phone_numbers", ...
+function inputForPath(path: string, customFieldIds: string[]): string | null {
+    const root = /^[a-z_]+/.exec(path)?.[0] ?? path;
+
+    switch (root) {
+        case "email_address":
+            return path.endsWith("permission_to_send") ? "permission_to_send" : "email_address";
+        case "sms_channel":
+            return path.includes("sms_channel_consents") ? "sms_channel_consents" : "full_sms_address";
+        case "custom_fields": {
+            const index = /^custom_fields\[(\d+)\]/.exec(path)?.[1];
+            const id = index != null ? customFieldIds[Number(index)] : undefined;
+            return id ? customFieldInputName(id) : null;
         }
-        return true;
+        // No single input to point at: shown in the banner
+        case "contact":
+        case "list_memberships":
+        case "taggings":
+            return null;
+        default:
+            return root;
+    }
+}
+
+// Focus the first invalid input in form order (for a row editor, its first control)
+function focusFirstInvalid(form: HTMLFormElement, inputs: InputErrors) {
+    const first = Array.from(form.elements).find((el) => {
+        const name = el.getAttribute("name");
+        return name != null && name in inputs;
     });
-    return filtered.length ? filtered : undefined;
+    const target =
+        first instanceof HTMLFieldSetElement
+            ? first.querySelector<HTMLElement>("input:not([type=hidden]), select, textarea, button")
+            : (first as HTMLElement | undefined);
+    target?.focus();
+}
+
+function errorId(name: string) {
+    return `${name}-error`;
+}
+
+function ringClass(error?: string) {
+    return error ? "ring-red-500 focus:ring-red-600" : "ring-gray-300 focus:ring-gray-900";
+}
+
+function customFieldInputName(customFieldId: string) {
+    return `custom_field:${customFieldId}`;
 }
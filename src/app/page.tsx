@@ -1,58 +1,25 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useMemo, useState } from "react";
-
-type Contact = {
-  contact_id: string;
-  first_name?: string;
-  last_name?: string;
-
-  email_address?: { address?: string; permission_to_send?: string };
-
-  phone_numbers?: { phone_number?: string }[];
-
-  street_addresses?: {
-    street?: string;
-    city?: string;
-    state?: string;
-    postal_code?: string;
-    country?: string;
-  }[];
-
-  list_memberships?: string[];
-  taggings?: string[];
-
-  notes?: { note_id?: string; created_at?: string; content?: string }[];
-
-  custom_fields?: { custom_field_id?: string; value?: string }[];
-
-  company_name?: string;
-
-  // Fields from Constant Contact API
-  job_title?: string;
-  birthday_month?: number;
-  birthday_day?: number;
-  anniversary?: string;
-
-  // SMS channel structure from Constant Contact
-  sms_channel?: {
-    full_sms_address?: string;
-    sms_address?: string;
-    sms_channel_consents?: any[];
-  };
-
-  create_source?: string;
-};
-
-type ContactsResponse = {
-  contacts: Contact[];
-  contacts_count?: number;
-  _links?: any;
-};
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
+import { JobsPanel } from "@/components/JobsPanel";
+import { api } from "@/lib/api";
+import type {
+  Contact,
+  ContactListsResponse,
+  ContactsResponse,
+  ContactTag,
+  ContactTagsResponse,
+} from "@/types/constantContact";
 
 const DEFAULT_LIMIT = 50;
 
+// How soon to ask again while a segment is still being computed (the API
+// itself already waits up to its wait_timeout before answering 202)
+const SEGMENT_RETRY_MS = 2000;
+
 // These match Constant Contact's include enum
 const MODAL_INCLUDE = [
   "phone_numbers",
@@ -72,6 +39,11 @@ export default function ContactsPage() {
   const [contactsCount, setContactsCount] = useState<number | null>(null);
   const [isAccepted202, setIsAccepted202] = useState(false);
 
+  // Paging (cursor from the last loaded page; null when there are no more)
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+
   // Filters
   const [emailFilter, setEmailFilter] = useState("");
   const [statusFilter, setStatusFilter] = useState<
@@ -79,6 +51,21 @@ export default function ContactsPage() {
   >("active");
   const [includeCount, setIncludeCount] = useState(true);
   const [limit, setLimit] = useState(DEFAULT_LIMIT);
+  const [tagFilter, setTagFilter] = useState("");
+  // segment_id can only be combined with limit, so it replaces the other filters
+  const [segmentInput, setSegmentInput] = useState("");
+  const [segmentFilter, setSegmentFilter] = useState("");
+
+  // Export
+  const [exportFormat, setExportFormat] = useState<"csv" | "json">("csv");
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [exportActivityId, setExportActivityId] = useState<string | null>(null);
+
+  // list_id -> list name, for showing memberships by name
+  const [listNames, setListNames] = useState<Record<string, string>>({});
+  // All tags, for the tag filter and showing taggings by name
+  const [tags, setTags] = useState<ContactTag[]>([]);
 
   // Modal state
   const [open, setOpen] = useState(false);
@@ -87,25 +74,86 @@ export default function ContactsPage() {
   const [modalLoading, setModalLoading] = useState(false);
   const [modalError, setModalError] = useState<string | null>(null);
 
-  function buildContactsQuery() {
+  // Filters shared by the list view and exports
+  const buildFilterParams = useCallback(() => {
     const params = new URLSearchParams();
-    params.set("limit", String(limit));
+    if (segmentFilter) {
+      params.set("segment_id", segmentFilter);
+      return params;
+    }
     params.set("status", statusFilter);
-    if (includeCount) params.set("include_count", "true");
     if (emailFilter.trim()) params.set("email", emailFilter.trim());
+    if (tagFilter) params.set("tags", tagFilter);
+    return params;
+  }, [segmentFilter, statusFilter, emailFilter, tagFilter]);
+
+  const buildContactsQuery = useCallback(() => {
+    const params = buildFilterParams();
+    params.set("limit", String(limit));
+    if (segmentFilter) {
+      // Let the API hold the request while the segment is computed
+      params.set("wait", "true");
+    } else if (includeCount) {
+      params.set("include_count", "true");
+    }
     // For list view, we intentionally do NOT include subresources to keep payload small.
     return `/api/contacts?${params.toString()}`;
+  }, [buildFilterParams, segmentFilter, includeCount, limit]);
+
+  // Export whatever the current filters show. Small sets download directly;
+  // large ones start an export activity that shows up in the jobs panel.
+  async function exportContacts() {
+    setExporting(true);
+    setExportError(null);
+
+    try {
+      const params = buildFilterParams();
+      params.set("format", exportFormat);
+      const res = await fetch(`/api/contacts/export?${params.toString()}`, {
+        cache: "no-store",
+      });
+
+      if (res.status === 202) {
+        const data = await res.json();
+        setExportActivityId(data?.activity_id ?? null);
+        return;
+      }
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error ?? `Failed to export contacts (${res.status})`);
+      }
+
+      const blob = await res.blob();
+      const disposition = res.headers.get("Content-Disposition") ?? "";
+      const filename =
+        /filename="([^"]+)"/.exec(disposition)?.[1] ?? `contacts.${exportFormat}`;
+
+      const href = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = href;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(href);
+    } catch (e: unknown) {
+      setExportError(e instanceof Error ? e.message : "Failed to export contacts");
+    } finally {
+      setExporting(false);
+    }
   }
 
-  async function loadContacts() {
-    setLoading(true);
+  // background: re-poll without replacing the list with a loading state.
+  // Memoized on the query, so it changes (and the list reloads) when a filter does.
+  const loadContacts = useCallback(async ({ background = false }: { background?: boolean } = {}) => {
+    if (!background) setLoading(true);
     setError(null);
     setIsAccepted202(false);
+    setNextCursor(null);
+    setLoadMoreError(null);
 
     try {
       const url = buildContactsQuery();
       const res = await fetch(url, { cache: "no-store" });
-      const data = (await res.json()) as any;
+      const data = (await res.json()) as ContactsResponse & { error?: string };
 
       // If your backend preserves 202, Next fetch will see res.status = 202.
       // We treat it as a non-fatal state.
@@ -115,26 +163,88 @@ export default function ContactsPage() {
         throw new Error(data?.error ?? `Failed to load contacts (${res.status})`);
       }
 
-      const payload = data as ContactsResponse;
+      const payload = data;
       setContacts(payload.contacts ?? []);
       setContactsCount(
         typeof payload.contacts_count === "number" ? payload.contacts_count : null
       );
-    } catch (e: any) {
-      setError(e.message ?? "Failed to load contacts");
+      setNextCursor(payload.next_cursor ?? null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to load contacts");
       setContacts([]);
       setContactsCount(null);
     } finally {
       setLoading(false);
     }
+  }, [buildContactsQuery]);
+
+  // Append the next page using the cursor from the previous response
+  async function loadMore() {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    setLoadMoreError(null);
+
+    try {
+      const res = await fetch(
+        `/api/contacts?cursor=${encodeURIComponent(nextCursor)}`,
+        { cache: "no-store" }
+      );
+      const data = (await res.json()) as ContactsResponse & { error?: string };
+
+      if (!res.ok) {
+        throw new Error(data?.error ?? `Failed to load more contacts (${res.status})`);
+      }
+
+      const payload = data;
+      const page = payload.contacts ?? [];
+      // Skip anything already shown (e.g. contacts created while paging)
+      setContacts((prev) => {
+        const seen = new Set(prev.map((c) => c.contact_id));
+        return [...prev, ...page.filter((c) => !seen.has(c.contact_id))];
+      });
+      if (typeof payload.contacts_count === "number") {
+        setContactsCount(payload.contacts_count);
+      }
+      setNextCursor(payload.next_cursor ?? null);
+    } catch (e: unknown) {
+      setLoadMoreError(e instanceof Error ? e.message : "Failed to load more contacts");
+    } finally {
+      setLoadingMore(false);
+    }
   }
 
-  // initial load
+  // initial load, and reload from the first page when a filter changes
   useEffect(() => {
     loadContacts();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadContacts]);
+
+  // 202: the segment is still being computed; keep asking until results arrive
+  useEffect(() => {
+    if (!isAccepted202) return;
+    const timer = setTimeout(() => loadContacts({ background: true }), SEGMENT_RETRY_MS);
+    return () => clearTimeout(timer);
+  }, [isAccepted202, loadContacts]);
+
+  // Lookup tables are best-effort: details fall back to raw IDs if they fail
+  useEffect(() => {
+    api<ContactListsResponse>("/api/lists?limit=1000&status=all")
+      .then((data) =>
+        setListNames(
+          Object.fromEntries((data?.lists ?? []).map((l) => [l.list_id, l.name]))
+        )
+      )
+      .catch(() => setListNames({}));
+
+    api<ContactTagsResponse>("/api/tags?limit=500")
+      .then((data) => setTags(data?.tags ?? []))
+      .catch(() => setTags([]));
   }, []);
 
+  const tagNames = useMemo(
+    () => Object.fromEntries(tags.map((t) => [t.tag_id, t.name])),
+    [tags]
+  );
+
   // Modal fetch (with include)
   async function openModal(contactId: string) {
     setOpen(true);
@@ -157,13 +267,20 @@ export default function ContactsPage() {
       }
 
       setSelected(data as Contact);
-    } catch (e: any) {
-      setModalError(e.message ?? "Failed to load contact");
+    } catch (e: unknown) {
+      setModalError(e instanceof Error ? e.message : "Failed to load contact");
     } finally {
       setModalLoading(false);
     }
   }
 
+  // Drop a deleted contact from the list without reloading
+  function handleDeleted(contactId: string) {
+    setContacts((prev) => prev.filter((c) => c.contact_id !== contactId));
+    setContactsCount((prev) => (prev != null && prev > 0 ? prev - 1 : prev));
+    closeModal();
+  }
+
   function closeModal() {
     setOpen(false);
     setSelectedId(null);
@@ -215,9 +332,69 @@ export default function ContactsPage() {
               Contacts
             </h1>
             <p className="mt-2 text-gray-500">Click a contact to view details.</p>
+            <div className="mt-2 flex flex-wrap items-center gap-3">
+              <AccountSwitcher />
+              <ConnectionStatus />
+            </div>
           </div>
 
           <div className="flex items-center gap-3">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                setSegmentFilter(segmentInput.trim());
+              }}
+            >
+              <input
+                aria-label="Segment ID"
+                placeholder="Segment ID"
+                value={segmentInput}
+                onChange={(e) => setSegmentInput(e.target.value)}
+                onBlur={() => setSegmentFilter(segmentInput.trim())}
+                className="w-32 rounded-lg bg-white px-3 py-2 text-sm text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-gray-900"
+              />
+            </form>
+            <select
+              aria-label="Filter by tag"
+              disabled={Boolean(segmentFilter)}
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="rounded-lg bg-white px-3 py-2 text-sm text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-gray-900"
+            >
+              <option value="">All tags</option>
+              {tags
+                .slice()
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map((t) => (
+                  <option key={t.tag_id} value={t.tag_id}>
+                    {t.name}
+                  </option>
+                ))}
+            </select>
+            <div className="flex items-center">
+              <select
+                aria-label="Export format"
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as "csv" | "json")}
+                className="rounded-l-lg bg-white px-2 py-2 text-sm text-gray-900 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-gray-900"
+              >
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+              </select>
+              <button
+                onClick={exportContacts}
+                disabled={exporting}
+                className="px-4 py-2 rounded-r-lg border border-l-0 border-gray-300 bg-white text-gray-700 hover:bg-gray-50 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {exporting ? "Exporting..." : "Export"}
+              </button>
+            </div>
+            <Link
+              href="/contacts/import"
+              className="px-4 py-2 rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 font-medium transition-colors"
+            >
+              Import
+            </Link>
             <Link
               href="/contacts/new"
               className="px-4 py-2 rounded-lg bg-gray-900 text-white hover:bg-gray-800 font-medium transition-colors shadow-sm"
@@ -234,14 +411,41 @@ export default function ContactsPage() {
         </div>
       )}
 
+      {isAccepted202 && (
+        <div className="mb-6 p-4 rounded-lg bg-blue-50 border border-blue-200 text-blue-800">
+          This segment is being computed. Results will appear here automatically.
+        </div>
+      )}
+
+      {exportError && (
+        <div className="mb-6 p-4 rounded-lg bg-red-50 border border-red-200 text-red-700">
+          {exportError}
+        </div>
+      )}
+
+      {exportActivityId && (
+        <div className="mb-6 p-4 rounded-lg bg-blue-50 border border-blue-200 text-blue-800">
+          Constant Contact is preparing this export. Download it from
+          the jobs panel below when it completes.
+        </div>
+      )}
+
       <section className="bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm">
         <div className="grid grid-cols-[1fr_1fr] bg-gray-50 border-b border-gray-200 p-4 font-semibold text-gray-700">
           <div>Contacts</div>
+          {!loading && rows.length > 0 && (
+            <div className="text-right text-sm font-normal text-gray-500">
+              Showing {rows.length}
+              {contactsCount != null && ` of ${contactsCount}`}
+            </div>
+          )}
         </div>
 
         <div className="divide-y divide-gray-100">
           {loading ? (
             <div className="p-8 text-center text-gray-500">Loading contacts...</div>
+          ) : rows.length === 0 && isAccepted202 ? (
+            <div className="p-8 text-center text-gray-500">Waiting for segment results...</div>
           ) : rows.length === 0 ? (
             <div className="p-8 text-center text-gray-500">No contacts found.</div>
           ) : (
@@ -272,8 +476,29 @@ export default function ContactsPage() {
             ))
           )}
         </div>
+
+        {!loading && (nextCursor || loadMoreError) && (
+          <div className="flex flex-col items-center gap-3 p-4 border-t border-gray-100 bg-gray-50">
+            {loadMoreError && (
+              <div className="text-sm text-red-700">{loadMoreError}</div>
+            )}
+            {nextCursor && (
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loadingMore ? "Loading..." : "Load more"}
+              </button>
+            )}
+          </div>
+        )}
       </section>
 
+      <div className="mt-6">
+        <JobsPanel limit={5} trackIds={exportActivityId ? [exportActivityId] : []} />
+      </div>
+
       {/* Modal */}
       {open && (
         <div
@@ -315,7 +540,12 @@ export default function ContactsPage() {
                   {modalError}
                 </div>
               ) : selected ? (
-                <ContactDetails contact={selected} />
+                <ContactDetails
+                  contact={selected}
+                  listNames={listNames}
+                  tagNames={tagNames}
+                  onDeleted={handleDeleted}
+                />
               ) : (
                 <p className="text-gray-500">No contact selected.</p>
               )}
@@ -329,7 +559,17 @@ export default function ContactsPage() {
 
 /* ===== Screenshot Layout Components ===== */
 
-function ContactDetails({ contact }: { contact: Contact }) {
+function ContactDetails({
+  contact,
+  listNames,
+  tagNames,
+  onDeleted,
+}: {
+  contact: Contact;
+  listNames: Record<string, string>;
+  tagNames: Record<string, string>;
+  onDeleted: (contactId: string) => void;
+}) {
   const name = [contact.first_name, contact.last_name].filter(Boolean).join(" ") || "—";
   const email = contact.email_address?.address ?? "—";
 
@@ -350,10 +590,14 @@ function ContactDetails({ contact }: { contact: Contact }) {
   const createSource = contact.create_source ?? "—";
 
   const listMemberships =
-    contact.list_memberships?.length ? contact.list_memberships.join(", ") : "—";
+    contact.list_memberships?.length
+      ? contact.list_memberships.map((id) => listNames[id] ?? id).join(", ")
+      : "—";
 
   const taggings =
-    contact.taggings?.length ? contact.taggings.join(", ") : "—";
+    contact.taggings?.length
+      ? contact.taggings.map((id) => tagNames[id] ?? id).join(", ")
+      : "—";
 
   const notes =
     contact.notes?.length
@@ -375,12 +619,91 @@ function ContactDetails({ contact }: { contact: Contact }) {
       {/* Row 3 */}
       <Field label="BIRTHDAY" value={birthday} />
       <Field label="ANNIVERSARY" value={anniversary} />
-      <Field label="LIST MEMBERSHIPS" value={listMemberships} mono />
+      <Field label="LIST MEMBERSHIPS" value={listMemberships} />
 
       {/* Row 4 */}
       <Field label="TAGGINGS" value={taggings} />
       <Field label="SMS ADDRESS" value={smsAddress} />
       <Field label="NOTES" value={notes} mono />
+
+      <div className="md:col-span-3 pt-6 border-t border-gray-100">
+        <DeleteContact contactId={contact.contact_id} onDeleted={onDeleted} />
+      </div>
+    </div>
+  );
+}
+
+function DeleteContact({
+  contactId,
+  onDeleted,
+}: {
+  contactId: string;
+  onDeleted: (contactId: string) => void;
+}) {
+  const [confirming, setConfirming] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleDelete() {
+    setDeleting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/contacts/${encodeURIComponent(contactId)}`, {
+        method: "DELETE",
+      });
+
+      // 204 has no body; only parse on failure
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error ?? `Failed to delete contact (${res.status})`);
+      }
+
+      onDeleted(contactId);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to delete contact");
+      setDeleting(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {confirming ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-gray-700">
+            Delete this contact? This cannot be undone from here.
+          </span>
+          <button
+            onClick={handleDelete}
+            disabled={deleting}
+            className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {deleting ? "Deleting..." : "Yes, delete"}
+          </button>
+          <button
+            onClick={() => setConfirming(false)}
+            disabled={deleting}
+            className="px-4 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors font-medium disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div>
+          <button
+            onClick={() => setConfirming(true)}
+            className="px-4 py-2 rounded-lg border border-red-300 bg-white text-red-600 hover:bg-red-50 font-medium transition-colors"
+          >
+            Delete
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,206 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
+import {
+    ACCOUNT_COOKIE,
+    DEFAULT_ACCOUNT_ID,
+    isAccountId,
+    readAccountCookie,
+} from "@/lib/accounts";
+import { api } from "@/lib/api";
+import type { DeviceAuthorization } from "@/lib/oauth";
+
+type PollResponse = { status: "pending" | "slow_down" | "authorized"; expires_at?: number | null };
+
+export default function SetupPage() {
+    const [auth, setAuth] = useState<DeviceAuthorization | null>(null);
+    const [deadline, setDeadline] = useState(0);
+    const [interval, setPollInterval] = useState(5);
+    const [starting, setStarting] = useState(false);
+    const [connected, setConnected] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [tick, setTick] = useState(0);
+
+    // Account ID the tokens are saved under (defaults to the selected account)
+    const [accountId, setAccountId] = useState(DEFAULT_ACCOUNT_ID);
+    const accountValid = isAccountId(accountId);
+    const accountQuery = `?account=${encodeURIComponent(accountId)}`;
+
+    // /api/auth/callback redirects here with ?error=... when the browser login fails
+    useEffect(() => {
+        const loginError = new URLSearchParams(window.location.search).get("error");
+        if (loginError) setError(loginError);
+        setAccountId(readAccountCookie(document.cookie) ?? DEFAULT_ACCOUNT_ID);
+    }, []);
+
+    async function start() {
+        setStarting(true);
+        setError(null);
+        setConnected(false);
+        setAuth(null);
+
+        try {
+            const data = await api<DeviceAuthorization>("/api/auth/device/start", { method: "POST" });
+            setAuth(data);
+            setPollInterval(data.interval ?? 5);
+            setDeadline(Date.now() + data.expires_in * 1000);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Failed to start authorization");
+        } finally {
+            setStarting(false);
+        }
+    }
+
+    // Poll until the user approves, the code expires, or the server reports an error
+    useEffect(() => {
+        if (!auth || connected) return;
+
+        const timer = setTimeout(async () => {
+            if (Date.now() >= deadline) {
+                setAuth(null);
+                setError("The code expired before it was approved. Start again.");
+                return;
+            }
+
+            try {
+                const res = await api<PollResponse>(`/api/auth/device/poll${accountQuery}`, {
+                    method: "POST",
+                    body: JSON.stringify({ device_code: auth.device_code }),
+                });
+
+                if (res.status === "authorized") {
+                    // Switch to the account that was just connected
+                    document.cookie = `${ACCOUNT_COOKIE}=${encodeURIComponent(accountId)}; path=/; max-age=31536000; samesite=lax`;
+                    setConnected(true);
+                    setAuth(null);
+                    return;
+                }
+                if (res.status === "slow_down") setPollInterval((s) => s + 5);
+                setTick((t) => t + 1);
+            } catch (e: unknown) {
+                setAuth(null);
+                setError(e instanceof Error ? e.message : "Authorization failed");
+            }
+        }, interval * 1000);
+
+        return () => clearTimeout(timer);
+    }, [auth, connected, deadline, interval, tick, accountId, accountQuery]);
+
+    const verifyUrl = auth ? auth.verification_uri_complete ?? auth.verification_uri : null;
+
+    return (
+        <main className="min-h-screen bg-gray-50">
+            <div className="max-w-3xl mx-auto p-6 sm:p-8 font-sans text-gray-900">
+                <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight text-gray-900">Connect Constant Contact</h1>
+                        <p className="mt-2 text-gray-500">
+                            Authorize this app once; tokens are saved on the server and refreshed automatically.
+                        </p>
+                        <div className="mt-2">
+                            <ConnectionStatus key={String(connected)} />
+                        </div>
+                    </div>
+                    <Link
+                        href="/"
+                        className="px-4 py-2 rounded-lg bg-gray-900 text-white hover:bg-gray-800 font-medium transition-colors shadow-sm"
+                    >
+                        View Contacts
+                    </Link>
+                </header>
+
+                {error && (
+                    <div className="mb-6 p-4 rounded-lg bg-red-50 border border-red-200 text-red-700">
+                        <p className="font-medium">{error}</p>
+                    </div>
+                )}
+
+                {connected && (
+                    <div className="mb-6 p-4 rounded-lg bg-green-50 border border-green-200 text-green-800">
+                        <p className="font-medium">Connected. The app can now read and update your contacts.</p>
+                    </div>
+                )}
+
+                <div className="mb-6 rounded-2xl bg-white p-6 sm:p-10 shadow-sm border border-gray-200 space-y-2">
+                    <label htmlFor="account_id" className="block text-sm font-semibold text-gray-900">
+                        Account ID
+                    </label>
+                    <input
+                        id="account_id"
+                        value={accountId}
+                        onChange={(e) => setAccountId(e.target.value.trim())}
+                        disabled={Boolean(auth)}
+                        className="block w-full max-w-xs rounded-lg bg-white px-3 py-2 text-sm text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-gray-900"
+                    />
+                    <p className={accountValid ? "text-sm text-gray-500" : "text-sm text-red-700"}>
+                        Tokens are saved under this ID (letters, digits, &apos;-&apos; and &apos;_&apos;). Use a new ID
+                        to add another Constant Contact account, or an existing one to reconnect it.
+                    </p>
+                </div>
+
+                <div className="mb-6 rounded-2xl bg-white p-6 sm:p-10 shadow-sm border border-gray-200 space-y-4">
+                    <h2 className="text-lg font-semibold text-gray-900">Sign in with Constant Contact</h2>
+                    <p className="text-sm text-gray-600">
+                        Redirects to Constant Contact and back (authorization code flow with PKCE).
+                        Requires this app&apos;s <span className="font-mono">/api/auth/callback</span> URL to be
+                        registered as a redirect URI.
+                    </p>
+                    <a
+                        href={accountValid ? `/api/auth/login${accountQuery}` : undefined}
+                        aria-disabled={!accountValid}
+                        className="inline-block aria-disabled:opacity-50 aria-disabled:pointer-events-none px-4 py-2 rounded-lg bg-gray-900 text-white hover:bg-gray-800 font-medium transition-colors shadow-sm"
+                    >
+                        Sign in
+                    </a>
+                </div>
+
+                <div className="rounded-2xl bg-white p-6 sm:p-10 shadow-sm border border-gray-200 space-y-6">
+                    <h2 className="text-lg font-semibold text-gray-900">Connect with a device code</h2>
+                    {auth && verifyUrl ? (
+                        <>
+                            <div className="space-y-2">
+                                <p className="text-sm text-gray-600">
+                                    1. Open the Constant Contact authorization page and sign in:
+                                </p>
+                                <a
+                                    href={verifyUrl}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="inline-block font-medium text-gray-900 underline hover:text-gray-700 break-all"
+                                >
+                                    {verifyUrl}
+                                </a>
+                            </div>
+
+                            <div className="space-y-2">
+                                <p className="text-sm text-gray-600">2. Confirm this code matches and approve the app:</p>
+                                <div className="inline-block rounded-lg bg-gray-100 px-4 py-2 font-mono text-2xl tracking-widest">
+                                    {auth.user_code}
+                                </div>
+                            </div>
+
+                            <p className="text-sm text-gray-500">Waiting for approval...</p>
+                        </>
+                    ) : (
+                        <div className="space-y-4">
+                            <p className="text-sm text-gray-600">
+                                Uses the OAuth device flow with the app&apos;s <span className="font-mono">CC_CLIENT_ID</span>.
+                                {connected ? " Reconnect to replace this account's tokens." : ""}
+                            </p>
+                            <button
+                                type="button"
+                                onClick={start}
+                                disabled={starting || !accountValid}
+                                className="px-4 py-2 rounded-lg bg-gray-900 text-white hover:bg-gray-800 font-medium transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {starting ? "Starting..." : connected ? "Reconnect" : "Connect"}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </main>
+    );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/api";
+import {
+    ACCOUNT_COOKIE,
+    DEFAULT_ACCOUNT_ID,
+    readAccountCookie,
+    type AccountSummary,
+    type AccountsResponse,
+} from "@/lib/accounts";
+
+/**
+ * Select the Constant Contact account every API call works on.
+ * The choice is stored in the cc_account cookie (read by the API routes), then the page reloads.
+ */
+export function AccountSwitcher() {
+    const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+    const [current, setCurrent] = useState(DEFAULT_ACCOUNT_ID);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        api<AccountsResponse>("/api/accounts")
+            .then((data) => {
+                setAccounts(data?.accounts ?? []);
+                setCurrent(readAccountCookie(document.cookie) ?? DEFAULT_ACCOUNT_ID);
+            })
+            .catch((e: Error) => setError(e.message || "Failed to load accounts"));
+    }, []);
+
+    function select(value: string) {
+        if (value === "__connect") {
+            window.location.href = "/setup";
+            return;
+        }
+        document.cookie = `${ACCOUNT_COOKIE}=${encodeURIComponent(value)}; path=/; max-age=31536000; samesite=lax`;
+        window.location.reload();
+    }
+
+    if (error) return <div className="text-sm text-red-700">{error}</div>;
+
+    // Keep the selected account visible even if it has no tokens yet
+    const options = accounts.some((a) => a.account_id === current)
+        ? accounts
+        : [{ account_id: current, connected: false, connected_as: null }, ...accounts];
+
+    return (
+        <select
+            aria-label="Constant Contact account"
+            value={current}
+            onChange={(e) => select(e.target.value)}
+            className="rounded-lg bg-white px-3 py-2 text-sm text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-gray-900"
+        >
+            {options.map((a) => (
+                <option key={a.account_id} value={a.account_id}>
+                    {a.account_id}
+                    {a.connected_as ? ` (${a.connected_as})` : ""}
+                    {a.connected ? "" : " (not connected)"}
+                </option>
+            ))}
+            <option value="__connect">+ Connect another account...</option>
+        </select>
+    );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/api";
+
+type Status = { connected: boolean; connected_as: string | null; expires_at: number | null };
+
+/**
+ * "Connected as …" / "Not connected" badge with a link to (re)run the OAuth login.
+ */
+export function ConnectionStatus() {
+    const [status, setStatus] = useState<Status | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        api<Status>("/api/auth/status")
+            .then(setStatus)
+            .catch((e: Error) => setError(e.message || "Failed to load connection status"));
+    }, []);
+
+    if (error) return <div className="text-sm text-red-700">{error}</div>;
+    if (!status) return <div className="text-sm text-gray-400">Checking connection...</div>;
+
+    return (
+        <div className="flex items-center gap-2 text-sm">
+            <span
+                className={[
+                    "h-2 w-2 rounded-full",
+                    status.connected ? "bg-green-500" : "bg-red-500",
+                ].join(" ")}
+            />
+            <span className="text-gray-700">
+                {status.connected
+                    ? status.connected_as
+                        ? <>Connected as <span className="font-medium">{status.connected_as}</span></>
+                        : "Connected"
+                    : "Not connected"}
+            </span>
+            {/* Full navigation: the login route redirects to Constant Contact */}
+            <a href="/api/auth/login" className="font-medium text-gray-900 underline hover:text-gray-700">
+                {status.connected ? "Reconnect" : "Connect"}
+            </a>
+        </div>
+    );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import { RowEditor } from "@/components/RowEditor";
+import {
+    CONTACT_ARRAY_LIMITS,
+    NOTE_MAX_LENGTH,
+    PHONE_NUMBER_KINDS,
+    PHONE_NUMBER_MAX_LENGTH,
+    SMS_CONSENT_PERMISSIONS,
+    SMS_CONSENT_TYPES,
+    STREET_ADDRESS_KINDS,
+    STREET_ADDRESS_MAX_LENGTHS,
+} from "@/lib/contactSchema";
+import type { SmsConsentType } from "@/types/constantContact";
+
+/**
+ * Editors for the contact's array fields on the create form. Each submits the same
+ * JSON array (under the same name) as the textarea it replaces, so validateContact
+ * reads them unchanged. Caps and lengths come from contactSchema.ts.
+ */
+
+const inputClass =
+    "block w-full rounded-lg border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-gray-900 sm:text-sm sm:leading-6";
+
+const SMS_CONSENT_TYPE_LABELS: Record<SmsConsentType, string> = {
+    promotional_sms: "Promotional SMS",
+};
+
+type PhoneRow = { phone_number: string; kind: string };
+
+export function PhoneNumbersEditor({ name = "phone_numbers", error }: { name?: string; error?: string }) {
+    return (
+        <RowEditor<PhoneRow>
+            label="Phone numbers"
+            name={name}
+            max={CONTACT_ARRAY_LIMITS.phone_numbers}
+            addLabel="Add phone number"
+            emptyRow={() => ({ phone_number: "", kind: "mobile" })}
+            isBlank={(row) => !row.phone_number.trim()}
+            error={error}
+            renderRow={(row, update, i) => (
+                <div className="flex gap-2">
+                    <input
+                        type="tel"
+                        value={row.phone_number}
+                        onChange={(e) => update({ phone_number: e.target.value })}
+                        maxLength={PHONE_NUMBER_MAX_LENGTH}
+                        placeholder="Phone number"
+                        aria-label={`Phone number ${i + 1}`}
+                        className={inputClass}
+                    />
+                    <KindSelect
+                        value={row.kind}
+                        kinds={PHONE_NUMBER_KINDS}
+                        onChange={(kind) => update({ kind })}
+                        label={`Phone number ${i + 1} kind`}
+                    />
+                </div>
+            )}
+        />
+    );
+}
+
+type AddressRow = { kind: string } & Record<keyof typeof STREET_ADDRESS_MAX_LENGTHS, string>;
+
+const ADDRESS_PARTS: { part: keyof typeof STREET_ADDRESS_MAX_LENGTHS; label: string }[] = [
+    { part: "city", label: "City" },
+    { part: "state", label: "State / province" },
+    { part: "postal_code", label: "Postal code" },
+    { part: "country", label: "Country" },
+];
+
+export function StreetAddressesEditor({ name = "street_addresses", error }: { name?: string; error?: string }) {
+    return (
+        <RowEditor<AddressRow>
+            label="Street addresses"
+            name={name}
+            max={CONTACT_ARRAY_LIMITS.street_addresses}
+            addLabel="Add address"
+            emptyRow={() => ({ kind: "home", street: "", city: "", state: "", postal_code: "", country: "" })}
+            isBlank={(row) => !row.street.trim() && ADDRESS_PARTS.every(({ part }) => !row[part].trim())}
+            error={error}
+            renderRow={(row, update, i) => (
+                <>
+                    <div className="flex gap-2">
+                        <input
+                            value={row.street}
+                            onChange={(e) => update({ street: e.target.value })}
+                            maxLength={STREET_ADDRESS_MAX_LENGTHS.street}
+                            placeholder="Street"
+                            aria-label={`Address ${i + 1} street`}
+                            className={inputClass}
+                        />
+                        <KindSelect
+                            value={row.kind}
+                            kinds={STREET_ADDRESS_KINDS}
+                            onChange={(kind) => update({ kind })}
+                            label={`Address ${i + 1} kind`}
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        {ADDRESS_PARTS.map(({ part, label }) => (
+                            <input
+                                key={part}
+                                value={row[part]}
+                                onChange={(e) => update({ [part]: e.target.value } as Partial<AddressRow>)}
+                                maxLength={STREET_ADDRESS_MAX_LENGTHS[part]}
+                                placeholder={label}
+                                aria-label={`Address ${i + 1} ${label.toLowerCase()}`}
+                                className={inputClass}
+                            />
+                        ))}
+                    </div>
+                </>
+            )}
+        />
+    );
+}
+
+type NoteRow = { content: string };
+
+export function NotesEditor({ name = "notes", error }: { name?: string; error?: string }) {
+    return (
+        <RowEditor<NoteRow>
+            label="Notes"
+            name={name}
+            max={CONTACT_ARRAY_LIMITS.notes}
+            addLabel="Add note"
+            emptyRow={() => ({ content: "" })}
+            isBlank={(row) => !row.content.trim()}
+            error={error}
+            renderRow={(row, update, i) => (
+                <textarea
+                    value={row.content}
+                    onChange={(e) => update({ content: e.target.value })}
+                    maxLength={NOTE_MAX_LENGTH}
+                    rows={2}
+                    placeholder="Note"
+                    aria-label={`Note ${i + 1}`}
+                    className={inputClass}
+                />
+            )}
+        />
+    );
+}
+
+/**
+ * One permission picker per SMS consent type; types left on "No consent" are not sent.
+ * Submits `[{ sms_consent_permission, consent_type }]` as JSON under `name`.
+ */
+export function SmsConsentPicker({ name = "sms_channel_consents", error }: { name?: string; error?: string }) {
+    const [permissions, setPermissions] = useState<Partial<Record<SmsConsentType, string>>>({});
+
+    const value = SMS_CONSENT_TYPES.filter((type) => permissions[type]).map((type) => ({
+        sms_consent_permission: permissions[type],
+        consent_type: type,
+    }));
+
+    return (
+        <fieldset
+            name={name}
+            aria-invalid={error ? true : undefined}
+            aria-describedby={error ? `${name}-error` : undefined}
+            className="space-y-2"
+        >
+            <legend className="block text-sm font-medium text-gray-700">SMS consent</legend>
+            <input type="hidden" name={name} value={JSON.stringify(value)} />
+
+            {SMS_CONSENT_TYPES.map((type) => (
+                <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+                    <span className="w-36 shrink-0">{SMS_CONSENT_TYPE_LABELS[type]}</span>
+                    <select
+                        value={permissions[type] ?? ""}
+                        onChange={(e) => setPermissions((prev) => ({ ...prev, [type]: e.target.value }))}
+                        className={inputClass}
+                    >
+                        <option value="">No consent</option>
+                        {SMS_CONSENT_PERMISSIONS.map((permission) => (
+                            <option key={permission} value={permission}>
+                                {permission}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+            ))}
+
+            {error && (
+                <p id={`${name}-error`} className="text-sm text-red-600">
+                    {error}
+                </p>
+            )}
+        </fieldset>
+    );
+}
+
+function KindSelect({
+    value,
+    kinds,
+    onChange,
+    label,
+}: {
+    value: string;
+    kinds: readonly string[];
+    onChange: (kind: string) => void;
+    label: string;
+}) {
+    return (
+        <div className="w-32 shrink-0">
+            <select value={value} onChange={(e) => onChange(e.target.value)} aria-label={label} className={inputClass}>
+                {kinds.map((kind) => (
+                    <option key={kind} value={kind}>
+                        {kind}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+}
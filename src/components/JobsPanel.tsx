@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { activityDownloadUrl, isActivityRunning } from "@/lib/activities";
+import { api } from "@/lib/api";
+import type { ActivitiesResponse, Activity } from "@/types/constantContact";
+
+const POLL_MS = 3000;
+
+/**
+ * Recent Constant Contact activities (imports, exports, bulk deletes, ...).
+ * Running activities are polled until they finish.
+ * `trackIds` adds activities that may not be in the recent list yet (e.g. one just started).
+ */
+export function JobsPanel({ limit = 10, trackIds = [] }: { limit?: number; trackIds?: string[] }) {
+    const [activities, setActivities] = useState<Activity[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [tick, setTick] = useState(0);
+
+    const trackKey = trackIds.join(",");
+
+    // Load recent activities, plus any tracked ones missing from that page
+    useEffect(() => {
+        let cancelled = false;
+        const tracked = trackKey.split(",").filter(Boolean);
+
+        api<ActivitiesResponse>(`/api/activities?limit=${limit}`)
+            .then(async (data) => {
+                const recent = data?.activities ?? [];
+                const missing = tracked.filter((id) => !recent.some((a) => a.activity_id === id));
+                const extra = await Promise.all(missing.map((id) => fetchActivity(id).catch(() => null)));
+                if (cancelled) return;
+                setActivities([...extra.filter((a): a is Activity => a != null), ...recent]);
+                setError(null);
+            })
+            .catch((e: Error) => {
+                if (!cancelled) setError(e.message || "Failed to load activities");
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [limit, trackKey]);
+
+    // Poll running activities until they complete/fail
+    const runningKey = activities.filter(isActivityRunning).map((a) => a.activity_id).join(",");
+    useEffect(() => {
+        if (!runningKey) return;
+
+        const timer = setTimeout(async () => {
+            const updates = await Promise.all(
+                runningKey.split(",").map((id) => fetchActivity(id).catch(() => null))
+            );
+            setActivities((prev) =>
+                prev.map((a) => updates.find((u) => u?.activity_id === a.activity_id) ?? a)
+            );
+            setTick((t) => t + 1);
+        }, POLL_MS);
+
+        return () => clearTimeout(timer);
+    }, [runningKey, tick]);
+
+    return (
+        <section className="bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm">
+            <div className="flex items-center justify-between bg-gray-50 border-b border-gray-200 p-4 font-semibold text-gray-700">
+                <div>Jobs</div>
+                {runningKey && (
+                    <div className="text-sm font-normal text-gray-500">Updating...</div>
+                )}
+            </div>
+
+            <div className="divide-y divide-gray-100">
+                {loading ? (
+                    <div className="p-6 text-center text-gray-500">Loading jobs...</div>
+                ) : error ? (
+                    <div className="p-4 text-sm text-red-700">{error}</div>
+                ) : activities.length === 0 ? (
+                    <div className="p-6 text-center text-gray-500">No recent jobs.</div>
+                ) : (
+                    activities.map((a) => <ActivityRow key={a.activity_id} activity={a} />)
+                )}
+            </div>
+        </section>
+    );
+}
+
+function ActivityRow({ activity }: { activity: Activity }) {
+    const percent = Math.max(0, Math.min(100, activity.percent_done ?? (activity.state === "completed" ? 100 : 0)));
+    const errors = activity.activity_errors ?? [];
+    const results = activity._links?.results?.href;
+    const downloadUrl = activity.state === "completed" ? activityDownloadUrl(activity) : null;
+    const total = activity.status?.items_total_count;
+    const done = activity.status?.items_completed_count;
+
+    return (
+        <div className="p-4 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="font-mono text-xs text-gray-500">{activity.activity_id}</div>
+                <div className="flex items-center gap-3 text-sm">
+                    {activity.created_at && (
+                        <span className="text-gray-500">{new Date(activity.created_at).toLocaleString()}</span>
+                    )}
+                    <StateBadge state={activity.state} />
+                </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+                <div className="h-2 flex-1 rounded-full bg-gray-100 overflow-hidden">
+                    <div
+                        className={[
+                            "h-full rounded-full transition-all",
+                            activity.state === "failed" || activity.state === "timed_out"
+                                ? "bg-red-500"
+                                : "bg-gray-900",
+                        ].join(" ")}
+                        style={{ width: `${percent}%` }}
+                    />
+                </div>
+                <div className="w-24 text-right text-sm text-gray-700">
+                    {percent}%
+                    {total != null && done != null && (
+                        <span className="text-gray-400"> ({done}/{total})</span>
+                    )}
+                </div>
+            </div>
+
+            {errors.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-red-700">
+                    {errors.slice(0, 5).map((msg, i) => (
+                        <li key={i}>{msg}</li>
+                    ))}
+                    {errors.length > 5 && <li>…and {errors.length - 5} more</li>}
+                </ul>
+            )}
+
+            {downloadUrl ? (
+                <a
+                    href={downloadUrl}
+                    className="inline-block text-sm font-medium text-gray-900 underline hover:text-gray-700"
+                >
+                    Download results
+                </a>
+            ) : results ? (
+                <div className="text-sm text-gray-700">
+                    Results: <span className="font-mono text-xs">{results}</span>
+                </div>
+            ) : null}
+        </div>
+    );
+}
+
+function StateBadge({ state }: { state: Activity["state"] }) {
+    const color =
+        state === "completed"
+            ? "bg-green-100 text-green-800"
+            : state === "failed" || state === "timed_out"
+                ? "bg-red-100 text-red-800"
+                : state === "cancelled"
+                    ? "bg-gray-100 text-gray-700"
+                    : "bg-blue-100 text-blue-800";
+
+    return (
+        <span className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${color}`}>
+            {state.replace("_", " ")}
+        </span>
+    );
+}
+
+function fetchActivity(id: string) {
+    return api<Activity>(`/api/activities/${encodeURIComponent(id)}`);
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+export type MultiSelectOption = { value: string; label: string };
+
+/**
+ * Searchable multi-select for form use.
+ * Each selected value is submitted as its own hidden input named `name`,
+ * so read it back with `formData.getAll(name)`.
+ * Pass `onCreate` to offer creating the searched value when nothing matches exactly.
+ */
+export function MultiSelect({
+    label,
+    name,
+    options,
+    loading,
+    error,
+    placeholder = "Search...",
+    emptyText = "No options available.",
+    onCreate,
+}: {
+    label: string;
+    name: string;
+    options: MultiSelectOption[];
+    loading?: boolean;
+    error?: string | null;
+    placeholder?: string;
+    emptyText?: string;
+    onCreate?: (label: string) => Promise<MultiSelectOption>;
+}) {
+    const [selected, setSelected] = useState<string[]>([]);
+    const [query, setQuery] = useState("");
+    const [creating, setCreating] = useState(false);
+    const [createError, setCreateError] = useState<string | null>(null);
+
+    const labels = useMemo(
+        () => new Map(options.map((o) => [o.value, o.label])),
+        [options]
+    );
+
+    const filtered = useMemo(() => {
+        const q = query.trim().toLowerCase();
+        if (!q) return options;
+        return options.filter((o) => o.label.toLowerCase().includes(q));
+    }, [options, query]);
+
+    const trimmedQuery = query.trim();
+    const canCreate =
+        Boolean(onCreate) &&
+        trimmedQuery !== "" &&
+        !options.some((o) => o.label.toLowerCase() === trimmedQuery.toLowerCase());
+
+    function toggle(value: string) {
+        setSelected((prev) =>
+            prev.includes(value) ? prev.filter((v) => v !== value) : [...prev, value]
+        );
+    }
+
+    async function handleCreate() {
+        if (!onCreate || !trimmedQuery) return;
+        setCreating(true);
+        setCreateError(null);
+
+        try {
+            const created = await onCreate(trimmedQuery);
+            setSelected((prev) => (prev.includes(created.value) ? prev : [...prev, created.value]));
+            setQuery("");
+        } catch (e: unknown) {
+            setCreateError(e instanceof Error ? e.message : "Failed to create");
+        } finally {
+            setCreating(false);
+        }
+    }
+
+    return (
+        <div className="space-y-1">
+            <label htmlFor={`${name}-search`} className="block text-sm font-medium text-gray-700">
+                {label}
+            </label>
+
+            {selected.map((v) => (
+                <input key={v} type="hidden" name={name} value={v} />
+            ))}
+
+            {selected.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 pb-1">
+                    {selected.map((v) => (
+                        <span
+                            key={v}
+                            className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-800"
+                        >
+                            {labels.get(v) ?? v}
+                            <button
+                                type="button"
+                                onClick={() => toggle(v)}
+                                className="text-gray-500 hover:text-gray-900"
+                                aria-label={`Remove ${labels.get(v) ?? v}`}
+                            >
+                                ×
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            <input
+                id={`${name}-search`}
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={placeholder}
+                className="block w-full rounded-lg border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-gray-900 sm:text-sm sm:leading-6"
+            />
+
+            <div className="max-h-36 overflow-y-auto rounded-lg border border-gray-200 bg-white">
+                {loading ? (
+                    <div className="px-3 py-2 text-sm text-gray-500">Loading...</div>
+                ) : error ? (
+                    <div className="px-3 py-2 text-sm text-red-700">{error}</div>
+                ) : filtered.length === 0 ? (
+                    <div className="px-3 py-2 text-sm text-gray-500">
+                        {options.length === 0 ? emptyText : "No matches."}
+                    </div>
+                ) : (
+                    filtered.map((o) => (
+                        <label
+                            key={o.value}
+                            className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-900 hover:bg-gray-50 cursor-pointer"
+                        >
+                            <input
+                                type="checkbox"
+                                checked={selected.includes(o.value)}
+                                onChange={() => toggle(o.value)}
+                                className="rounded border-gray-300"
+                            />
+                            {o.label}
+                        </label>
+                    ))
+                )}
+                {!loading && !error && canCreate && (
+                    <button
+                        type="button"
+                        onClick={handleCreate}
+                        disabled={creating}
+                        className="w-full border-t border-gray-100 px-3 py-1.5 text-left text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                        {creating ? "Creating..." : `+ Create "${trimmedQuery}"`}
+                    </button>
+                )}
+            </div>
+
+            {createError && <p className="text-sm text-red-700">{createError}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+type Row = Record<string, string>;
+
+/**
+ * Repeatable rows of small inputs (e.g. phone numbers) for form use.
+ * The rows are submitted as one hidden input named `name` holding a JSON array, with
+ * blank rows and empty values left out, so read it back with `formData.get(name)`.
+ * At most `max` rows can be added.
+ */
+export function RowEditor<T extends Row>({
+    label,
+    name,
+    max,
+    addLabel,
+    emptyRow,
+    isBlank,
+    renderRow,
+    error,
+}: {
+    label: string;
+    name: string;
+    max: number;
+    addLabel: string;
+    emptyRow: () => T;
+    // Rows for which this is true are not submitted (e.g. only a kind picked)
+    isBlank: (row: T) => boolean;
+    renderRow: (row: T, update: (patch: Partial<T>) => void, index: number) => React.ReactNode;
+    error?: string;
+}) {
+    const [rows, setRows] = useState<{ key: number; row: T }[]>([]);
+    const nextKey = useRef(0);
+
+    function add() {
+        if (rows.length >= max) return;
+        setRows((prev) => [...prev, { key: nextKey.current++, row: emptyRow() }]);
+    }
+
+    function update(key: number, patch: Partial<T>) {
+        setRows((prev) => prev.map((r) => (r.key === key ? { ...r, row: { ...r.row, ...patch } } : r)));
+    }
+
+    function remove(key: number) {
+        setRows((prev) => prev.filter((r) => r.key !== key));
+    }
+
+    const value = rows
+        .map((r) => r.row)
+        .filter((row) => !isBlank(row))
+        .map((row) => Object.fromEntries(Object.entries(row).filter(([, v]) => v.trim() !== "")));
+
+    return (
+        <fieldset
+            name={name}
+            aria-invalid={error ? true : undefined}
+            aria-describedby={error ? `${name}-error` : undefined}
+            className="space-y-2"
+        >
+            <legend className="block text-sm font-medium text-gray-700">{label}</legend>
+            <input type="hidden" name={name} value={JSON.stringify(value)} />
+
+            {rows.map(({ key, row }, i) => (
+                <div
+                    key={key}
+                    className={`flex items-start gap-2 rounded-lg border p-2 ${error ? "border-red-300" : "border-gray-200"}`}
+                >
+                    <div className="flex-1 space-y-2">{renderRow(row, (patch) => update(key, patch), i)}</div>
+                    <button
+                        type="button"
+                        onClick={() => remove(key)}
+                        className="px-2 py-1 text-gray-500 hover:text-gray-900"
+                        aria-label={`Remove ${label.toLowerCase()} ${i + 1}`}
+                    >
+                        ×
+                    </button>
+                </div>
+            ))}
+
+            <div className="flex items-center gap-2">
+                <button
+                    type="button"
+                    onClick={add}
+                    disabled={rows.length >= max}
+                    className="px-3 py-1.5 rounded-lg border border-gray-300 bg-white text-sm text-gray-700 hover:bg-gray-50 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    + {addLabel}
+                </button>
+                <span className="text-xs text-gray-500">
+                    {rows.length}/{max}
+                </span>
+            </div>
+
+            {error && (
+                <p id={`${name}-error`} className="text-sm text-red-600">
+                    {error}
+                </p>
+            )}
+        </fieldset>
+    );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { MultiSelect } from "@/components/MultiSelect";
+import { api } from "@/lib/api";
+import type { ContactTag, ContactTagsResponse } from "@/types/constantContact";
+
+/**
+ * Tag multi-select backed by /api/tags. Typing a name that doesn't exist
+ * offers to create the tag inline and selects it.
+ */
+export function TagPicker({ label = "Tags", name }: { label?: string; name: string }) {
+    const [tags, setTags] = useState<ContactTag[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        api<ContactTagsResponse>("/api/tags?limit=500")
+            .then((data) => setTags(data?.tags ?? []))
+            .catch((e: Error) => setError(e.message || "Failed to load tags"))
+            .finally(() => setLoading(false));
+    }, []);
+
+    const options = useMemo(
+        () =>
+            tags
+                .map((t) => ({ value: t.tag_id, label: t.name }))
+                .sort((a, b) => a.label.localeCompare(b.label)),
+        [tags]
+    );
+
+    async function createTag(tagName: string) {
+        const created = await api<ContactTag>("/api/tags", {
+            method: "POST",
+            body: JSON.stringify({ name: tagName }),
+        });
+        setTags((prev) => [...prev, created]);
+        return { value: created.tag_id, label: created.name };
+    }
+
+    return (
+        <MultiSelect
+            label={label}
+            name={name}
+            options={options}
+            loading={loading}
+            error={error}
+            placeholder="Search or create tags..."
+            emptyText="No tags yet. Type a name to create one."
+            onCreate={createTag}
+        />
+    );
+}
@@ -0,0 +1,647 @@
+import { createHash, randomUUID } from "crypto";
+import {
+    FIXTURE_ACCESS_TOKEN,
+    FIXTURE_REFRESH_TOKEN,
+    createFixtures,
+    type FakeFixtures,
+} from "@/fake/fixtures";
+import type {
+    Contact,
+    ContactSignUpRequest,
+    ContactSource,
+    ContactWriteFields,
+    SmsConsent,
+} from "@/types/constantContact";
+
+/**
+ * In-process fake of the Constant Contact v3 API and its authorization server, for
+ * offline development (scripts/fake-cc-server.ts serves it over HTTP) and tests
+ * (call `fetch` directly or stub the global fetch with it).
+ *
+ * Covers:
+ * - GET/POST /v3/contacts, GET/PUT/DELETE /v3/contacts/{id}, with include, filters,
+ *   include_count and `_links.next` cursor paging
+ * - POST /v3/contacts/sign_up_form (create, or update the contact with that email)
+ * - segment_id queries answering 202 a few times before the results are "ready"
+ * - read-only /v3/contact_lists, /v3/contact_tags and /v3/contact_custom_fields
+ * - Bearer tokens that expire (401), and the token endpoint: refresh_token,
+ *   device_code and authorization_code (+ PKCE) grants
+ *
+ * Errors use Constant Contact's shape: an array of { error_key, error_message }.
+ */
+
+export type FakeConstantContactOptions = {
+    fixtures?: FakeFixtures;
+    // lifetime of issued access tokens (default 1 hour); the seeded token uses it too
+    accessTokenTtlS?: number;
+    // 202 responses per segment_id before its contacts are returned (default 2)
+    segmentPendingPolls?: number;
+    // device_code polls answered authorization_pending before approval (default 1)
+    devicePendingPolls?: number;
+    // when set, only this client_id is accepted by the authorization server
+    clientId?: string;
+    // refresh tokens rotate on every use (like CC's rotating tokens) instead of being long-lived
+    rotateRefreshTokens?: boolean;
+};
+
+export type FakeConstantContact = {
+    fetch: (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+    handle: (req: Request) => Promise<Response>;
+    state: FakeFixtures;
+    // Expire every issued access token, so the next API call gets a 401
+    expireAccessTokens: () => void;
+    // API requests handled so far (token endpoint excluded), for assertions in tests
+    requests: { method: string; path: string }[];
+};
+
+export const FAKE_API_PREFIX = "/v3";
+export const FAKE_AUTHZ_PREFIX = "/oauth2/default/v1";
+
+const CONTACT_INCLUDES = [
+    "custom_fields",
+    "list_memberships",
+    "phone_numbers",
+    "street_addresses",
+    "taggings",
+    "notes",
+] as const;
+
+type IssuedToken = { expiresAt: number };
+
+// A POST/PUT /contacts body, typed as the client should send it (nothing here is trusted)
+type ContactBody = Omit<ContactWriteFields, "sms_channel"> & {
+    create_source?: ContactSource;
+    update_source?: ContactSource;
+    sms_channel?: {
+        sms_address?: string;
+        full_sms_address?: string;
+        sms_channel_consents?: SmsConsent[];
+    };
+};
+
+// A POST /contacts/sign_up_form body
+type SignUpBody = Partial<ContactSignUpRequest>;
+
+export function createFakeConstantContact(options: FakeConstantContactOptions = {}): FakeConstantContact {
+    const state = options.fixtures ?? createFixtures();
+    const ttlMs = (options.accessTokenTtlS ?? 3600) * 1000;
+    const segmentPendingPolls = options.segmentPendingPolls ?? 2;
+    const devicePendingPolls = options.devicePendingPolls ?? 1;
+
+    const accessTokens = new Map<string, IssuedToken>([[FIXTURE_ACCESS_TOKEN, { expiresAt: Date.now() + ttlMs }]]);
+    const refreshTokens = new Set<string>([FIXTURE_REFRESH_TOKEN]);
+    const segmentPolls = new Map<number, number>();
+    const deviceCodes = new Map<string, { userCode: string; polls: number; approved: boolean; expiresAt: number }>();
+    const authCodes = new Map<
+        string,
+        { redirectUri: string; codeChallenge: string; nonce: string | null; expiresAt: number }
+    >();
+    const requests: { method: string; path: string }[] = [];
+
+    async function handle(req: Request): Promise<Response> {
+        const url = new URL(req.url);
+        const path = url.pathname.replace(/\/$/, "");
+
+        try {
+            if (path.startsWith(FAKE_AUTHZ_PREFIX)) {
+                return await handleAuthz(req, url, path.slice(FAKE_AUTHZ_PREFIX.length));
+            }
+            if (path === "/activate") return handleActivate(url);
+
+            if (!path.startsWith(FAKE_API_PREFIX)) {
+                return ccError(404, "http.not_found", `No fake route for ${path}.`);
+            }
+
+            const apiPath = path.slice(FAKE_API_PREFIX.length);
+            requests.push({ method: req.method, path: apiPath });
+
+            const auth = req.headers.get("authorization") ?? "";
+            const token = auth.startsWith("Bearer ") ? auth.slice(7) : "";
+            const issued = accessTokens.get(token);
+            if (!issued || issued.expiresAt <= Date.now()) {
+                return ccError(401, "unauthorized", "Unauthorized");
+            }
+
+            return await handleApi(req, url, apiPath);
+        } catch (e) {
+            return ccError(500, "server.error", e instanceof Error ? e.message : "Fake server error");
+        }
+    }
+
+    /* ---------------- API ---------------- */
+
+    async function handleApi(req: Request, url: URL, apiPath: string): Promise<Response> {
+        const sp = url.searchParams;
+
+        if (apiPath === "/contacts") {
+            if (req.method === "GET") return listContacts(sp);
+            if (req.method === "POST") return createContact(await readJson(req));
+        }
+        if (apiPath === "/contacts/sign_up_form" && req.method === "POST") {
+            return signUpContact(await readJson<SignUpBody>(req));
+        }
+
+        const idMatch = apiPath.match(/^\/contacts\/([^/]+)$/);
+        if (idMatch) {
+            const contact = state.contacts.find((c) => c.contact_id === idMatch[1] && !c.deleted_at);
+            if (!contact) return ccError(404, "contacts.api.not.found", "Contact not found.");
+
+            if (req.method === "GET") {
+                const include = parseInclude(sp.get("include"));
+                if (include instanceof Response) return include;
+                return json(200, presentContact(contact, include));
+            }
+            if (req.method === "PUT") return updateContact(contact, await readJson(req));
+            if (req.method === "DELETE") {
+                contact.deleted_at = new Date().toISOString();
+                return new Response(null, { status: 204 });
+            }
+        }
+
+        if (req.method === "GET" && apiPath === "/contact_lists") {
+            return json(200, { lists: state.lists, lists_count: state.lists.length, _links: {} });
+        }
+        if (req.method === "GET" && apiPath === "/contact_tags") {
+            return json(200, { tags: state.tags, _links: {} });
+        }
+        if (req.method === "GET" && apiPath === "/contact_custom_fields") {
+            return json(200, { custom_fields: state.customFields, _links: {} });
+        }
+
+        return ccError(404, "http.not_found", `The fake server does not implement ${req.method} ${apiPath}.`);
+    }
+
+    function listContacts(sp: URLSearchParams): Response {
+        // A cursor carries the original filters plus the offset of the next page
+        let params = sp;
+        let offset = 0;
+        const cursor = sp.get("cursor");
+        if (cursor) {
+            const decoded = decodeCursor(cursor);
+            if (!decoded) return ccError(400, "contacts.api.bad.request", "Invalid cursor.");
+            params = new URLSearchParams(decoded.query);
+            offset = decoded.offset;
+        }
+
+        const limit = Number(params.get("limit") ?? 50);
+        if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+            return ccError(400, "contacts.api.bad.request", "limit must be between 1 and 500.");
+        }
+
+        const include = parseInclude(params.get("include"));
+        if (include instanceof Response) return include;
+
+        let matches = state.contacts.filter(statusFilter(params.get("status")));
+
+        const segmentId = params.get("segment_id");
+        if (segmentId) {
+            const segment = state.segments.find((s) => String(s.segment_id) === segmentId);
+            if (!segment) return ccError(404, "segments.api.not.found", "Segment not found.");
+
+            // Constant Contact computes segment membership asynchronously
+            const polls = segmentPolls.get(segment.segment_id) ?? 0;
+            if (!cursor && polls < segmentPendingPolls) {
+                segmentPolls.set(segment.segment_id, polls + 1);
+                return json(202, { message: "Segment contacts are being processed. Try again shortly." });
+            }
+            matches = matches.filter(segment.matches);
+        }
+
+        const email = params.get("email");
+        if (email) matches = matches.filter((c) => c.email_address?.address.toLowerCase() === email.toLowerCase());
+
+        const lists = params.get("lists")?.split(",");
+        if (lists) matches = matches.filter((c) => c.list_memberships?.some((id) => lists.includes(id)));
+
+        const tags = params.get("tags")?.split(",");
+        if (tags) matches = matches.filter((c) => c.taggings?.some((id) => tags.includes(id)));
+
+        for (const [param, field, after] of [
+            ["created_after", "created_at", true],
+            ["created_before", "created_at", false],
+            ["updated_after", "updated_at", true],
+            ["updated_before", "updated_at", false],
+        ] as const) {
+            const bound = params.get(param);
+            if (bound) {
+                const t = Date.parse(bound);
+                matches = matches.filter((c) => (after ? Date.parse(c[field] ?? "") > t : Date.parse(c[field] ?? "") < t));
+            }
+        }
+
+        const page = matches.slice(offset, offset + limit);
+        const body: Record<string, unknown> = {
+            contacts: page.map((c) => presentContact(c, include)),
+            _links: {},
+        };
+
+        const nextOffset = offset + limit;
+        if (nextOffset < matches.length) {
+            const query = new URLSearchParams(params);
+            query.delete("cursor");
+            body._links = {
+                next: { href: `${FAKE_API_PREFIX}/contacts?cursor=${encodeCursor(query.toString(), nextOffset)}` },
+            };
+        }
+        if (params.get("include_count") === "true") body.contacts_count = matches.length;
+
+        return json(200, body);
+    }
+
+    function createContact(body: ContactBody | null): Response {
+        if (!body) return ccError(400, "contacts.api.bad.request", "Request body must be JSON.");
+
+        const address = body.email_address?.address;
+        if (!address && !body.sms_channel) {
+            return ccError(400, "contacts.api.validation.error", "Either email_address or sms_channel is required.");
+        }
+        if (body.create_source !== "Account" && body.create_source !== "Contact") {
+            return ccError(400, "contacts.api.validation.error", "create_source must be Account or Contact.");
+        }
+        if (
+            address &&
+            state.contacts.some((c) => !c.deleted_at && c.email_address?.address.toLowerCase() === String(address).toLowerCase())
+        ) {
+            return ccError(409, "contacts.api.conflict", `Email address ${address} is already in use.`);
+        }
+
+        const now = new Date().toISOString();
+        const contact: Contact = {
+            ...applyFields({} as Contact, body, now),
+            contact_id: randomUUID(),
+            create_source: body.create_source,
+            update_source: body.create_source,
+            created_at: now,
+            updated_at: now,
+        };
+        state.contacts.push(contact);
+
+        return json(201, presentContact(contact, [...CONTACT_INCLUDES]));
+    }
+
+    function updateContact(contact: Contact, body: ContactBody | null): Response {
+        if (!body) return ccError(400, "contacts.api.bad.request", "Request body must be JSON.");
+        if (body.update_source !== "Account" && body.update_source !== "Contact") {
+            return ccError(400, "contacts.api.validation.error", "update_source must be Account or Contact.");
+        }
+
+        const now = new Date().toISOString();
+        applyFields(contact, body, now);
+        contact.update_source = body.update_source;
+        contact.updated_at = now;
+
+        return json(200, presentContact(contact, [...CONTACT_INCLUDES]));
+    }
+
+    // Lists and tags are added to the existing contact's, notes appended, other fields overwritten
+    function signUpContact(body: SignUpBody | null): Response {
+        if (!body) return ccError(400, "contacts.api.bad.request", "Request body must be JSON.");
+
+        const { email_address, phone_number, street_address, list_memberships, taggings, notes, ...rest } = body;
+        const address = typeof email_address === "string" ? email_address.trim() : "";
+        if (!address) {
+            return ccError(400, "contacts.api.validation.error", "#/email_address: is required.");
+        }
+        if (!Array.isArray(list_memberships) || list_memberships.length === 0) {
+            return ccError(400, "contacts.api.validation.error", "#/list_memberships: must have at least 1 item.");
+        }
+
+        const now = new Date().toISOString();
+        const fields: ContactBody = {
+            ...rest,
+            email_address: { address, permission_to_send: "explicit" },
+            ...(phone_number ? { phone_numbers: [{ phone_number, kind: "other" }] } : {}),
+            ...(street_address ? { street_addresses: [street_address] } : {}),
+        };
+
+        const existing = state.contacts.find(
+            (c) => !c.deleted_at && c.email_address?.address.toLowerCase() === address.toLowerCase()
+        );
+        const contact = existing ?? ({ contact_id: randomUUID(), create_source: "Contact", created_at: now } as Contact);
+
+        const customFields = new Map((contact.custom_fields ?? []).map((f) => [f.custom_field_id, f]));
+        for (const f of rest.custom_fields ?? []) customFields.set(f.custom_field_id, f);
+
+        applyFields(contact, { ...fields, custom_fields: [...customFields.values()] }, now);
+        contact.list_memberships = [...new Set([...(contact.list_memberships ?? []), ...list_memberships])];
+        contact.taggings = [...new Set([...(contact.taggings ?? []), ...(taggings ?? [])])];
+        contact.notes = [
+            ...(contact.notes ?? []),
+            ...(notes ?? []).map((n) => ({ note_id: randomUUID(), created_at: now, content: n.content })),
+        ];
+        contact.update_source = "Contact";
+        contact.updated_at = now;
+
+        if (existing) return json(200, { contact_id: contact.contact_id, action: "updated" });
+        state.contacts.push(contact);
+        return json(201, { contact_id: contact.contact_id, action: "created" });
+    }
+
+    /* ---------------- authorization server ---------------- */
+
+    async function handleAuthz(req: Request, url: URL, authzPath: string): Promise<Response> {
+        if (authzPath === "/authorize" && req.method === "GET") return authorize(url);
+
+        if (req.method !== "POST") return oauthError(405, "invalid_request", "Method not allowed.");
+        const form = new URLSearchParams(await req.text());
+
+        const clientId = form.get("client_id");
+        if (!clientId || (options.clientId && clientId !== options.clientId)) {
+            return oauthError(401, "invalid_client", "Unknown client_id.");
+        }
+
+        if (authzPath === "/device/authorize") {
+            const deviceCode = randomUUID();
+            const userCode = `${randomLetters(4)}-${randomLetters(4)}`;
+            deviceCodes.set(deviceCode, { userCode, polls: 0, approved: false, expiresAt: Date.now() + 600_000 });
+
+            const origin = url.origin;
+            return json(200, {
+                device_code: deviceCode,
+                user_code: userCode,
+                verification_uri: `${origin}/activate`,
+                verification_uri_complete: `${origin}/activate?user_code=${userCode}`,
+                expires_in: 600,
+                interval: 1,
+            });
+        }
+
+        if (authzPath === "/token") return token(form);
+
+        return oauthError(404, "invalid_request", `No fake route for ${authzPath}.`);
+    }
+
+    function token(form: URLSearchParams): Response {
+        const grant = form.get("grant_type");
+
+        if (grant === "refresh_token") {
+            const refresh = form.get("refresh_token") ?? "";
+            if (!refreshTokens.has(refresh)) return oauthError(400, "invalid_grant", "The refresh token is invalid or expired.");
+            if (options.rotateRefreshTokens) {
+                refreshTokens.delete(refresh);
+                return json(200, issueTokens(true));
+            }
+            return json(200, issueTokens(false));
+        }
+
+        if (grant === "urn:ietf:params:oauth:grant-type:device_code") {
+            const device = deviceCodes.get(form.get("device_code") ?? "");
+            if (!device || device.expiresAt <= Date.now()) {
+                return oauthError(400, "expired_token", "The device code has expired.");
+            }
+            device.polls++;
+            if (!device.approved && device.polls <= devicePendingPolls) {
+                return oauthError(400, "authorization_pending", "The user has not yet approved the request.");
+            }
+            deviceCodes.delete(form.get("device_code") ?? "");
+            return json(200, issueTokens(true));
+        }
+
+        if (grant === "authorization_code") {
+            const code = form.get("code") ?? "";
+            const pending = authCodes.get(code);
+            authCodes.delete(code);
+            if (!pending || pending.expiresAt <= Date.now()) {
+                return oauthError(400, "invalid_grant", "The authorization code is invalid or expired.");
+            }
+            if (form.get("redirect_uri") !== pending.redirectUri) {
+                return oauthError(400, "invalid_grant", "redirect_uri does not match the authorization request.");
+            }
+            const challenge = createHash("sha256").update(form.get("code_verifier") ?? "").digest("base64url");
+            if (challenge !== pending.codeChallenge) {
+                return oauthError(400, "invalid_grant", "PKCE verification failed.");
+            }
+
+            return json(200, {
+                ...issueTokens(true),
+                id_token: unsignedJwt({
+                    sub: "fake-user-1",
+                    email: "owner@example.org",
+                    name: "Fake Account Owner",
+                    nonce: pending.nonce ?? undefined,
+                }),
+            });
+        }
+
+        return oauthError(400, "unsupported_grant_type", `Unsupported grant_type ${grant}.`);
+    }
+
+    function authorize(url: URL): Response {
+        const sp = url.searchParams;
+        const redirectUri = sp.get("redirect_uri");
+        if (!redirectUri) return oauthError(400, "invalid_request", "redirect_uri is required.");
+        if (!sp.get("client_id") || (options.clientId && sp.get("client_id") !== options.clientId)) {
+            return oauthError(401, "invalid_client", "Unknown client_id.");
+        }
+        if (sp.get("response_type") !== "code" || sp.get("code_challenge_method") !== "S256" || !sp.get("code_challenge")) {
+            return oauthError(400, "invalid_request", "Expected response_type=code with an S256 code_challenge.");
+        }
+
+        // No login screen: the fake approves immediately
+        const code = randomUUID();
+        authCodes.set(code, {
+            redirectUri,
+            codeChallenge: sp.get("code_challenge") ?? "",
+            nonce: sp.get("nonce"),
+            expiresAt: Date.now() + 60_000,
+        });
+
+        const target = new URL(redirectUri);
+        target.searchParams.set("code", code);
+        const st = sp.get("state");
+        if (st) target.searchParams.set("state", st);
+        return new Response(null, { status: 302, headers: { Location: target.toString() } });
+    }
+
+    // Verification page for the device flow: visiting it approves the user_code
+    function handleActivate(url: URL): Response {
+        const userCode = url.searchParams.get("user_code");
+        const device = [...deviceCodes.values()].find((d) => d.userCode === userCode);
+        if (device) device.approved = true;
+
+        const message = device ? `Approved ${userCode}. You can close this tab.` : "Unknown or expired code.";
+        return new Response(`<!doctype html><title>Fake Constant Contact</title><p>${message}</p>`, {
+            status: device ? 200 : 404,
+            headers: { "Content-Type": "text/html; charset=utf-8" },
+        });
+    }
+
+    function issueTokens(newRefreshToken: boolean) {
+        const accessToken = `fake-at-${randomUUID()}`;
+        accessTokens.set(accessToken, { expiresAt: Date.now() + ttlMs });
+
+        const body: Record<string, unknown> = {
+            access_token: accessToken,
+            token_type: "Bearer",
+            expires_in: Math.round(ttlMs / 1000),
+            scope: "contact_data offline_access",
+        };
+        if (newRefreshToken) {
+            const refreshToken = `fake-rt-${randomUUID()}`;
+            refreshTokens.add(refreshToken);
+            body.refresh_token = refreshToken;
+        }
+        return body;
+    }
+
+    return {
+        handle,
+        fetch: (input, init) => handle(input instanceof Request ? input : new Request(input, init)),
+        state,
+        expireAccessTokens: () => {
+            for (const t of accessTokens.values()) t.expiresAt = 0;
+        },
+        requests,
+    };
+}
+
+/* ---------------- helpers ---------------- */
+
+function presentContact(c: Contact, include: readonly string[]) {
+    const {
+        phone_numbers,
+        street_addresses,
+        list_memberships,
+        taggings,
+        custom_fields,
+        notes,
+        ...base
+    } = c;
+    const subResources: Record<string, unknown> = {
+        phone_numbers,
+        street_addresses,
+        list_memberships,
+        taggings,
+        custom_fields,
+        notes,
+    };
+
+    const out: Record<string, unknown> = { ...base };
+    for (const key of include) out[key] = subResources[key] ?? [];
+    return out;
+}
+
+// Copies the writable fields of a create/update body onto a contact
+function applyFields(contact: Contact, body: ContactBody, now: string): Contact {
+    for (const key of ["first_name", "last_name", "job_title", "company_name", "birthday_month", "birthday_day", "anniversary"] as const) {
+        if (body[key] !== undefined) (contact as Record<string, unknown>)[key] = body[key];
+    }
+
+    if (body.email_address?.address) {
+        contact.email_address = {
+            address: body.email_address.address,
+            permission_to_send: body.email_address.permission_to_send ?? "implicit",
+            created_at: contact.email_address?.created_at ?? now,
+            updated_at: now,
+        };
+    }
+
+    if (body.sms_channel) {
+        const full = String(body.sms_channel.full_sms_address ?? body.sms_channel.sms_address ?? "");
+        contact.sms_channel = {
+            sms_channel_id: contact.sms_channel?.sms_channel_id ?? randomUUID(),
+            sms_address: full.replace(/^\+1/, ""),
+            dial_code: "1",
+            country_code: "US",
+            full_sms_address: full,
+            sms_channel_consents: body.sms_channel.sms_channel_consents ?? [],
+        };
+    }
+
+    if (Array.isArray(body.phone_numbers)) {
+        contact.phone_numbers = body.phone_numbers.map((p) => ({
+            phone_number_id: randomUUID(),
+            phone_number: p.phone_number,
+            kind: p.kind ?? "other",
+        }));
+    }
+    if (Array.isArray(body.street_addresses)) {
+        contact.street_addresses = body.street_addresses.map((a) => ({
+            street_address_id: randomUUID(),
+            kind: a.kind ?? "home",
+            street: a.street,
+            city: a.city,
+            state: a.state,
+            postal_code: a.postal_code,
+            country: a.country,
+        }));
+    }
+    if (Array.isArray(body.list_memberships)) contact.list_memberships = body.list_memberships;
+    if (Array.isArray(body.taggings)) contact.taggings = body.taggings;
+    if (Array.isArray(body.custom_fields)) contact.custom_fields = body.custom_fields;
+    if (Array.isArray(body.notes)) {
+        contact.notes = body.notes.map((n) => ({
+            note_id: n.note_id ?? randomUUID(),
+            created_at: n.created_at ?? now,
+            content: n.content,
+        }));
+    }
+
+    return contact;
+}
+
+function parseInclude(raw: string | null): string[] | Response {
+    if (!raw) return [];
+    const values = raw.split(",").map((v) => v.trim()).filter(Boolean);
+    const invalid = values.find((v) => !(CONTACT_INCLUDES as readonly string[]).includes(v));
+    if (invalid) return ccError(400, "contacts.api.bad.request", `Invalid include value: ${invalid}.`);
+    return values;
+}
+
+// Default (no status) skips deleted contacts, like Constant Contact
+function statusFilter(raw: string | null): (c: Contact) => boolean {
+    const statuses = (raw ?? "").split(",").filter(Boolean);
+    const statusOf = (c: Contact) =>
+        c.deleted_at ? "deleted" : c.email_address?.permission_to_send === "unsubscribed" ? "unsubscribed" : "active";
+
+    if (statuses.length === 0) return (c) => !c.deleted_at;
+    if (statuses.includes("all")) return () => true;
+    return (c) => statuses.includes(statusOf(c));
+}
+
+function encodeCursor(query: string, offset: number) {
+    return Buffer.from(JSON.stringify({ query, offset })).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { query: string; offset: number } | null {
+    try {
+        const v = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+        return typeof v?.query === "string" && Number.isInteger(v?.offset) ? v : null;
+    } catch {
+        return null;
+    }
+}
+
+async function readJson<T = ContactBody>(req: Request): Promise<T | null> {
+    try {
+        const v = await req.json();
+        return v && typeof v === "object" && !Array.isArray(v) ? v : null;
+    } catch {
+        return null;
+    }
+}
+
+function json(status: number, body: unknown) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+function ccError(status: number, errorKey: string, message: string) {
+    return json(status, [{ error_key: errorKey, error_message: message }]);
+}
+
+function oauthError(status: number, error: string, description: string) {
+    return json(status, { error, error_description: description });
+}
+
+function unsignedJwt(claims: Record<string, unknown>) {
+    const part = (v: unknown) => Buffer.from(JSON.stringify(v)).toString("base64url");
+    return `${part({ alg: "none", typ: "JWT" })}.${part(claims)}.`;
+}
+
+function randomLetters(n: number) {
+    const alphabet = "BCDFGHJKLMNPQRSTVWXZ";
+    return Array.from({ length: n }, () => alphabet[Math.floor(Math.random() * alphabet.length)]).join("");
+}
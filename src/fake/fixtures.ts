@@ -0,0 +1,226 @@
+import type { Contact, ContactList, ContactTag, CustomFieldDefinition } from "@/types/constantContact";
+
+/**
+ * Seed data for the fake Constant Contact server (see constantContactServer.ts).
+ * Deterministic, so tests can rely on counts and IDs.
+ */
+
+export type FakeSegment = {
+    segment_id: number;
+    name: string;
+    matches: (c: Contact) => boolean;
+};
+
+export type FakeFixtures = {
+    contacts: Contact[];
+    lists: ContactList[];
+    tags: ContactTag[];
+    customFields: CustomFieldDefinition[];
+    segments: FakeSegment[];
+};
+
+// Tokens the fake accepts out of the box (put them in .env.local)
+export const FIXTURE_ACCESS_TOKEN = "fake-access-token";
+export const FIXTURE_REFRESH_TOKEN = "fake-refresh-token";
+
+const LIST_NEWSLETTER = "1f8e3a62-3d1b-11ef-9a2b-fa163e6b01c1";
+const LIST_DONORS = "2b4c7e10-3d1b-11ef-9a2b-fa163e6b01c1";
+const LIST_VOLUNTEERS = "38d9f4a4-3d1b-11ef-9a2b-fa163e6b01c1";
+const LIST_EVENTS = "45e1b2c8-3d1b-11ef-9a2b-fa163e6b01c1";
+
+const TAG_MAJOR_DONOR = "a1d2c3b4-4e5f-11ef-8c3d-fa163e6b01c1";
+const TAG_MONTHLY = "b2e3d4c5-4e5f-11ef-8c3d-fa163e6b01c1";
+const TAG_BOARD = "c3f4e5d6-4e5f-11ef-8c3d-fa163e6b01c1";
+const TAG_GALA_2025 = "d4a5f6e7-4e5f-11ef-8c3d-fa163e6b01c1";
+
+const FIELD_DONOR_ID = "e5b6a7f8-5a6b-11ef-b7c1-fa163e6b01c1";
+const FIELD_FIRST_GIFT = "f6c7b8a9-5a6b-11ef-b7c1-fa163e6b01c1";
+const FIELD_LIFETIME = "07d8c9ba-5a6b-11ef-b7c1-fa163e6b01c1";
+const FIELD_RECURRING = "18e9dacb-5a6b-11ef-b7c1-fa163e6b01c1";
+
+const FIRST_NAMES = [
+    "Olivia", "Liam", "Emma", "Noah", "Ava", "Mateo", "Sophia", "Elijah", "Isabella", "James",
+    "Mia", "Lucas", "Amelia", "Benjamin", "Harper", "Henry", "Evelyn", "Theodore", "Camila", "Jack",
+    "Priya", "Wei", "Fatima", "Diego", "Aisha", "Kenji", "Ingrid", "Tomás", "Chloe", "Samuel",
+    "Grace", "Omar", "Zoe", "Daniel", "Leah", "Arjun", "Nora", "Gabriel", "Hannah", "Malik",
+];
+
+const LAST_NAMES = [
+    "Johnson", "Martinez", "Nguyen", "Okafor", "Schmidt", "Patel", "Rossi", "Kim", "O'Brien", "Haddad",
+    "Kowalski", "Tanaka", "Silva", "Dubois", "Andersen", "Cohen", "Mensah", "Larsen", "Romero", "Walker",
+];
+
+const COMPANIES = [
+    "Riverbend Community Foundation", "Northwind Health", "Bluebird Coffee Co.", "Summit Legal Group",
+    "Harbor Light Church", "Greenfield Schools", undefined, "Cedar & Pine Architects", undefined,
+    "Lakeside Credit Union",
+];
+
+const JOB_TITLES = [
+    "Executive Director", "Nurse Practitioner", "Owner", "Attorney", "Pastor", "Teacher",
+    undefined, "Architect", "Software Engineer", "Branch Manager",
+];
+
+const CITIES: [string, string, string][] = [
+    ["Austin", "TX", "78701"], ["Portland", "OR", "97205"], ["Denver", "CO", "80202"],
+    ["Madison", "WI", "53703"], ["Raleigh", "NC", "27601"], ["Omaha", "NE", "68102"],
+];
+
+const STREETS = ["Maple Ave", "Oak St", "Cedar Ln", "Lakeview Dr", "Elm St", "Park Blvd"];
+
+function fixtureId(prefix: string, n: number) {
+    const hex = n.toString(16).padStart(12, "0");
+    return `${prefix}-7c2e-4d1a-9b3f-${hex}`;
+}
+
+function isoDaysAgo(days: number, hour = 15) {
+    const d = new Date(Date.UTC(2025, 5, 30, hour, 12, 0));
+    d.setUTCDate(d.getUTCDate() - days);
+    return d.toISOString().replace(".000Z", "Z");
+}
+
+function buildContacts(): Contact[] {
+    const contacts: Contact[] = [];
+
+    for (let i = 0; i < 60; i++) {
+        const first = FIRST_NAMES[i % FIRST_NAMES.length];
+        const last = LAST_NAMES[(i * 7) % LAST_NAMES.length];
+        const emailName = `${first}.${last}`.toLowerCase().normalize("NFD").replace(/[^a-z.]/g, "");
+        const created = isoDaysAgo(400 - i * 6);
+        const updated = isoDaysAgo(Math.max(0, 120 - i * 2), 18);
+        const [city, state, zip] = CITIES[i % CITIES.length];
+
+        const permission = i % 13 === 5 ? "unsubscribed" : i % 4 === 0 ? "explicit" : "implicit";
+
+        const lists = [LIST_NEWSLETTER];
+        if (i % 3 === 0) lists.push(LIST_DONORS);
+        if (i % 5 === 1) lists.push(LIST_VOLUNTEERS);
+        if (i % 4 === 2) lists.push(LIST_EVENTS);
+
+        const tags: string[] = [];
+        if (i % 9 === 0) tags.push(TAG_MAJOR_DONOR);
+        if (i % 3 === 0) tags.push(TAG_MONTHLY);
+        if (i % 17 === 3) tags.push(TAG_BOARD);
+        if (i % 4 === 2) tags.push(TAG_GALA_2025);
+
+        const contact: Contact = {
+            contact_id: fixtureId("4f0b1d2e", i + 1),
+            email_address: {
+                address: `${emailName}${i >= FIRST_NAMES.length ? i : ""}@example.org`,
+                permission_to_send: permission,
+                created_at: created,
+                updated_at: updated,
+                opt_in_source: permission === "explicit" ? "Contact" : "Account",
+            },
+            first_name: first,
+            last_name: last,
+            job_title: JOB_TITLES[i % JOB_TITLES.length],
+            company_name: COMPANIES[i % COMPANIES.length],
+            create_source: i % 4 === 0 ? "Contact" : "Account",
+            update_source: "Account",
+            created_at: created,
+            updated_at: updated,
+            phone_numbers: [
+                {
+                    phone_number_id: fixtureId("5a1c2d3e", i * 2 + 1),
+                    phone_number: `+1512384${1000 + i * 37}`,
+                    kind: i % 2 === 0 ? "mobile" : "home",
+                },
+            ],
+            street_addresses: [
+                {
+                    street_address_id: fixtureId("6b2d3e4f", i + 1),
+                    kind: "home",
+                    street: `${100 + i * 17} ${STREETS[i % STREETS.length]}`,
+                    city,
+                    state,
+                    postal_code: zip,
+                    country: "US",
+                },
+            ],
+            list_memberships: lists,
+            taggings: tags,
+            custom_fields: [],
+            notes: [],
+        };
+
+        if (i % 6 === 0) {
+            contact.birthday_month = (i % 12) + 1;
+            contact.birthday_day = (i % 28) + 1;
+        }
+
+        if (i % 3 === 0) {
+            contact.custom_fields = [
+                { custom_field_id: FIELD_DONOR_ID, value: `D-${10420 + i}` },
+                { custom_field_id: FIELD_FIRST_GIFT, value: isoDaysAgo(900 - i * 10).slice(0, 10) },
+                { custom_field_id: FIELD_LIFETIME, value: (250 + i * 42.5).toFixed(2) },
+                { custom_field_id: FIELD_RECURRING, value: i % 2 === 0 ? "true" : "false" },
+            ];
+        }
+
+        if (i % 10 === 0) {
+            contact.notes = [
+                {
+                    note_id: fixtureId("7c3e4f5a", i + 1),
+                    created_at: isoDaysAgo(30 - i / 10),
+                    content: "Met at the spring fundraiser; interested in volunteering.",
+                },
+            ];
+        }
+
+        if (i % 8 === 0) {
+            const local = `512555${(1000 + i).toString().slice(-4)}`;
+            contact.sms_channel = {
+                sms_channel_id: fixtureId("8d4f5a6b", i + 1),
+                sms_address: local,
+                dial_code: "1",
+                country_code: "US",
+                full_sms_address: `+1${local}`,
+                sms_channel_consents: [
+                    { sms_consent_permission: "explicit", consent_type: "promotional_sms" },
+                ],
+            };
+        }
+
+        if (i === 59) contact.deleted_at = isoDaysAgo(3);
+
+        contacts.push(contact);
+    }
+
+    return contacts;
+}
+
+/**
+ * Fresh copy of the seed data (safe to mutate).
+ */
+export function createFixtures(): FakeFixtures {
+    const contacts = buildContacts();
+    const countOn = (id: string) => contacts.filter((c) => !c.deleted_at && c.list_memberships?.includes(id)).length;
+    const tagged = (id: string) => contacts.filter((c) => !c.deleted_at && c.taggings?.includes(id)).length;
+
+    return {
+        contacts,
+        lists: [
+            { list_id: LIST_NEWSLETTER, name: "Monthly Newsletter", description: "Everyone who gets the newsletter", favorite: true, membership_count: countOn(LIST_NEWSLETTER), created_at: isoDaysAgo(700), updated_at: isoDaysAgo(20) },
+            { list_id: LIST_DONORS, name: "Donors", description: "Gave at least once", favorite: true, membership_count: countOn(LIST_DONORS), created_at: isoDaysAgo(650), updated_at: isoDaysAgo(15) },
+            { list_id: LIST_VOLUNTEERS, name: "Volunteers", favorite: false, membership_count: countOn(LIST_VOLUNTEERS), created_at: isoDaysAgo(500), updated_at: isoDaysAgo(40) },
+            { list_id: LIST_EVENTS, name: "Event Attendees", favorite: false, membership_count: countOn(LIST_EVENTS), created_at: isoDaysAgo(300), updated_at: isoDaysAgo(5) },
+        ],
+        tags: [
+            { tag_id: TAG_MAJOR_DONOR, name: "Major donor", tag_source: "Account", contacts_count: tagged(TAG_MAJOR_DONOR), created_at: isoDaysAgo(600), updated_at: isoDaysAgo(60) },
+            { tag_id: TAG_MONTHLY, name: "Monthly giver", tag_source: "Account", contacts_count: tagged(TAG_MONTHLY), created_at: isoDaysAgo(580), updated_at: isoDaysAgo(60) },
+            { tag_id: TAG_BOARD, name: "Board member", tag_source: "Account", contacts_count: tagged(TAG_BOARD), created_at: isoDaysAgo(560), updated_at: isoDaysAgo(90) },
+            { tag_id: TAG_GALA_2025, name: "Gala 2025", tag_source: "Account", contacts_count: tagged(TAG_GALA_2025), created_at: isoDaysAgo(120), updated_at: isoDaysAgo(10) },
+        ],
+        customFields: [
+            { custom_field_id: FIELD_DONOR_ID, label: "Donor ID", name: "donor_id", type: "string", created_at: isoDaysAgo(640), updated_at: isoDaysAgo(640) },
+            { custom_field_id: FIELD_FIRST_GIFT, label: "First gift date", name: "first_gift_date", type: "date", created_at: isoDaysAgo(640), updated_at: isoDaysAgo(640) },
+            { custom_field_id: FIELD_LIFETIME, label: "Lifetime giving", name: "lifetime_giving", type: "currency", created_at: isoDaysAgo(640), updated_at: isoDaysAgo(640) },
+            { custom_field_id: FIELD_RECURRING, label: "Recurring donor", name: "recurring_donor", type: "boolean", created_at: isoDaysAgo(640), updated_at: isoDaysAgo(640) },
+        ],
+        segments: [
+            { segment_id: 1, name: "Texas donors", matches: (c) => Boolean(c.list_memberships?.includes(LIST_DONORS) && c.street_addresses?.[0]?.state === "TX") },
+            { segment_id: 2, name: "Board members", matches: (c) => Boolean(c.taggings?.includes(TAG_BOARD)) },
+        ],
+    };
+}
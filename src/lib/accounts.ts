@@ -0,0 +1,59 @@
+/**
+ * Account selection. Each connected Constant Contact account has its own tokens,
+ * stored under an account ID (e.g. "acme"). API routes pick the account from
+ * `?account=<id>`, falling back to the `cc_account` cookie set by the account switcher,
+ * then to the default account (the one seeded from CC_ACCESS_TOKEN / CC_REFRESH_TOKEN).
+ *
+ * Safe to import from client components.
+ */
+
+export const DEFAULT_ACCOUNT_ID = "default";
+export const ACCOUNT_COOKIE = "cc_account";
+
+const ACCOUNT_ID_RE = /^[A-Za-z0-9_-]{1,64}$/;
+
+export type AccountSummary = {
+    account_id: string;
+    connected: boolean;
+    connected_as: string | null;
+};
+
+export type AccountsResponse = { accounts: AccountSummary[] };
+
+export function isAccountId(v: string): boolean {
+    return ACCOUNT_ID_RE.test(v);
+}
+
+/**
+ * Resolve the account for an API request (query param, then cookie, then default).
+ */
+export function resolveAccount(req: Request): { ok: true; accountId: string } | { ok: false; error: string } {
+    const fromQuery = new URL(req.url).searchParams.get("account");
+    const raw = fromQuery ?? readAccountCookie(req.headers.get("cookie") ?? "") ?? DEFAULT_ACCOUNT_ID;
+    const accountId = raw.trim();
+
+    if (!isAccountId(accountId)) {
+        return {
+            ok: false,
+            error: "Bad request: account must be 1-64 letters, digits, '-' or '_'.",
+        };
+    }
+    return { ok: true, accountId };
+}
+
+/**
+ * Read the selected account from a Cookie header (or document.cookie).
+ */
+export function readAccountCookie(cookieHeader: string): string | null {
+    for (const part of cookieHeader.split(";")) {
+        const [name, ...rest] = part.trim().split("=");
+        if (name === ACCOUNT_COOKIE) {
+            try {
+                return decodeURIComponent(rest.join("="));
+            } catch {
+                return null;
+            }
+        }
+    }
+    return null;
+}
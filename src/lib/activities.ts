@@ -0,0 +1,32 @@
+import type { Activity, ActivityState } from "@/types/constantContact";
+
+/**
+ * Activity state helpers shared by /api/activities and the jobs panel.
+ */
+
+export const ACTIVITY_STATES: ActivityState[] = [
+    "initialized",
+    "processing",
+    "completed",
+    "cancelled",
+    "failed",
+    "timed_out",
+];
+
+// States that will still change and need polling
+const RUNNING_STATES = new Set<ActivityState>(["initialized", "processing"]);
+
+export function isActivityRunning(activity: Pick<Activity, "state">): boolean {
+    return RUNNING_STATES.has(activity.state);
+}
+
+/**
+ * Browser-usable link for an activity's results. Constant Contact's
+ * `_links.results.href` needs a bearer token, so contact export files are
+ * served through /api/contacts/export/[id] instead. Null when there is nothing to download.
+ */
+export function activityDownloadUrl(activity: Pick<Activity, "_links">): string | null {
+    const href = activity._links?.results?.href;
+    const match = href ? /\/contact_exports\/([^/?#]+)/.exec(href) : null;
+    return match ? `/api/contacts/export/${encodeURIComponent(match[1])}` : null;
+}
@@ -1,3 +1,8 @@
+import type { ApiErrorResponse } from "@/types/api";
+
+// Thrown by api() on a non-2xx; `response` is the route's error envelope when it sent one
+export type ApiRequestError = Error & { status: number; response: ApiErrorResponse | null };
+
 export async function api<T>(path: string, init?: RequestInit): Promise<T> {
     const res = await fetch(path, {
         ...init,
@@ -12,7 +17,10 @@ export async function api<T>(path: string, init?: RequestInit): Promise<T> {
 
     if (!res.ok) {
         const message = (data && (data.error || data.message)) || `Request failed (${res.status})`;
-        throw new Error(message);
+        const err = new Error(message) as ApiRequestError;
+        err.status = res.status;
+        err.response = typeof data?.code === "string" ? (data as ApiErrorResponse) : null;
+        throw err;
     }
 
     return data as T;
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from "vitest";
+import { badRequest, errorResponse, parseCcErrors } from "@/lib/apiError";
+
+describe("parseCcErrors", () => {
+    it("keys JSON pointer messages by field path", () => {
+        expect(
+            parseCcErrors([
+                { error_key: "contacts.api.bad.request.body", error_message: "#/phone_numbers/1/kind: must be one of home, work" },
+                { error_key: "contacts.api.bad.request.body", error_message: "#/email_address/address: is not a valid email" },
+                { error_key: "contacts.api.bad.request.body", error_message: "#/email_address/address: is too long" },
+            ])
+        ).toEqual({
+            message: "phone_numbers[1].kind: must be one of home, work",
+            fields: {
+                "phone_numbers[1].kind": ["must be one of home, work"],
+                "email_address.address": ["is not a valid email", "is too long"],
+            },
+        });
+    });
+
+    it("uses plain messages, falling back to the error key", () => {
+        expect(
+            parseCcErrors([{ error_key: "contacts.api.conflict" }, { error_key: "x", error_message: "Email already exists" }])
+        ).toEqual({ message: "contacts.api.conflict", fields: {} });
+    });
+
+    it.each([[null], [{ error_message: "not an array" }], [[]], [[{}]]])("returns null for %j", (body) => {
+        expect(parseCcErrors(body)).toBeNull();
+    });
+});
+
+describe("error responses", () => {
+    it("wraps validation errors with a code, status and request ID", async () => {
+        const res = badRequest("Bad request: email_address is invalid.", { email_address: "email_address is invalid." });
+        const body = await res.json();
+
+        expect(res.status).toBe(400);
+        expect(body).toEqual({
+            error: "Bad request: email_address is invalid.",
+            code: "bad_request",
+            status: 400,
+            request_id: res.headers.get("X-Request-Id"),
+            fields: { email_address: ["email_address is invalid."] },
+        });
+    });
+
+    it.each([
+        [401, false, "unauthorized"],
+        [404, false, "not_found"],
+        [422, false, "bad_request"],
+        [429, false, "rate_limited"],
+        [502, true, "upstream_error"],
+        [500, false, "internal_error"],
+    ])("maps a thrown %i (upstream: %s) to %s", async (status, upstream, code) => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+
+        const res = errorResponse(Object.assign(new Error("boom"), { status, upstream }));
+
+        expect(res.status).toBe(status);
+        expect(await res.json()).toMatchObject({ error: "boom", code, status });
+    });
+
+    it("carries fields from a parsed Constant Contact error", async () => {
+        const err = Object.assign(new Error("email_address.address: is not a valid email"), {
+            status: 400,
+            upstream: true,
+            fields: { "email_address.address": ["is not a valid email"] },
+        });
+
+        expect(await errorResponse(err).json()).toMatchObject({
+            code: "bad_request",
+            fields: { "email_address.address": ["is not a valid email"] },
+        });
+    });
+});
@@ -0,0 +1,126 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import type { ApiErrorCode, ApiErrorResponse, ApiFieldErrors } from "@/types/api";
+
+/**
+ * The error envelope every API route answers with (see types/api.ts): `badRequest`
+ * for our own validation, `errorResponse` for anything thrown, including Constant
+ * Contact errors parsed by `parseCcErrors`.
+ */
+
+// What lib code attaches to thrown errors (ccFetchJson, oauth, rateLimiter)
+type RouteError = Error & {
+    status?: number;
+    details?: unknown;
+    fields?: ApiFieldErrors;
+    // set on errors from a Constant Contact response, so its 5xx read as upstream_error
+    upstream?: boolean;
+};
+
+// Validators key one message per field (see contactSchema.ts); the envelope allows several
+export type FieldErrorsInput = Record<string, string | string[]>;
+
+type CcErrorItem = { error_key?: unknown; error_message?: unknown };
+
+const CODE_BY_STATUS: Record<number, ApiErrorCode> = {
+    400: "bad_request",
+    401: "unauthorized",
+    403: "forbidden",
+    404: "not_found",
+    409: "conflict",
+    429: "rate_limited",
+};
+
+export function apiError(
+    status: number,
+    message: string,
+    extra: { code?: ApiErrorCode; fields?: FieldErrorsInput; details?: unknown } = {}
+): NextResponse<ApiErrorResponse> {
+    const requestId = randomUUID();
+    const body: ApiErrorResponse = {
+        error: message,
+        code: extra.code ?? codeForStatus(status),
+        status,
+        request_id: requestId,
+    };
+    if (extra.fields && Object.keys(extra.fields).length > 0) body.fields = toFieldErrors(extra.fields);
+    if (extra.details != null) body.details = extra.details;
+
+    return NextResponse.json(body, { status, headers: { "X-Request-Id": requestId } });
+}
+
+export function badRequest(message: string, fields?: FieldErrorsInput) {
+    return apiError(400, message, { fields });
+}
+
+/**
+ * Envelope for an error caught by a route: keeps its status (500 when it has none),
+ * fields and details. Server errors are logged with the request ID.
+ */
+export function errorResponse(e: unknown) {
+    const err = (e instanceof Error ? e : new Error(String(e))) as RouteError;
+    const status = err.status ?? 500;
+    const code = status >= 500 && err.upstream ? "upstream_error" : codeForStatus(status);
+
+    const res = apiError(status, err.message || "Unknown error", {
+        code,
+        fields: err.fields,
+        details: err.details,
+    });
+    if (status >= 500) console.error(`API error [${res.headers.get("X-Request-Id")}]:`, err);
+    return res;
+}
+
+/**
+ * Read a Constant Contact error body: an array of { error_key, error_message }.
+ * Messages that start with a JSON pointer ("#/email_address/address: ...") are keyed
+ * by that field. Returns null for any other body.
+ */
+export function parseCcErrors(body: unknown): { message: string; fields: ApiFieldErrors } | null {
+    if (!Array.isArray(body)) return null;
+
+    const messages: string[] = [];
+    const fields: ApiFieldErrors = {};
+    for (const item of body as CcErrorItem[]) {
+        const text =
+            typeof item?.error_message === "string" && item.error_message.trim()
+                ? item.error_message.trim()
+                : typeof item?.error_key === "string"
+                  ? item.error_key
+                  : "";
+        if (!text) continue;
+
+        const pointer = /^#\/([^:\s]+):\s*(.+)$/.exec(text);
+        if (pointer) {
+            const path = toFieldPath(pointer[1]);
+            (fields[path] ??= []).push(pointer[2]);
+            messages.push(`${path}: ${pointer[2]}`);
+        } else {
+            messages.push(text);
+        }
+    }
+
+    return messages.length > 0 ? { message: messages[0], fields } : null;
+}
+
+/* ---------------- helpers ---------------- */
+
+function codeForStatus(status: number): ApiErrorCode {
+    if (CODE_BY_STATUS[status]) return CODE_BY_STATUS[status];
+    return status >= 500 ? "internal_error" : "bad_request";
+}
+
+function toFieldErrors(fields: FieldErrorsInput): ApiFieldErrors {
+    return Object.fromEntries(
+        Object.entries(fields).map(([path, messages]) => [path, Array.isArray(messages) ? messages : [messages]])
+    );
+}
+
+// "phone_numbers/0/kind" → "phone_numbers[0].kind", the paths our validators use
+function toFieldPath(pointer: string): string {
+    return pointer
+        .split("/")
+        .filter(Boolean)
+        .map((part, i) => (/^\d+$/.test(part) ? `[${part}]` : i === 0 ? part : `.${part}`))
+        .join("");
+}
@@ -0,0 +1,267 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    createFakeConstantContact,
+    type FakeConstantContact,
+    type FakeConstantContactOptions,
+} from "@/fake/constantContactServer";
+import { FIXTURE_ACCESS_TOKEN, FIXTURE_REFRESH_TOKEN } from "@/fake/fixtures";
+import { ccFetchJson, setTokenStore } from "@/lib/constantContact";
+import { MemoryTokenStore, type StoredTokens } from "@/lib/tokenStore";
+import type { ContactsResponse } from "@/types/constantContact";
+
+// Runs the real client against the in-memory fake (see vitest.config.mts for the env)
+let fake: FakeConstantContact;
+let fetchSpy: ReturnType<typeof vi.fn<FakeConstantContact["fetch"]>>;
+let store: MemoryTokenStore;
+
+function useFake(options?: FakeConstantContactOptions) {
+    fake = createFakeConstantContact(options);
+    fetchSpy = vi.fn(fake.fetch);
+    vi.stubGlobal("fetch", fetchSpy);
+}
+
+function connect(tokens: Partial<StoredTokens> = {}) {
+    store = new MemoryTokenStore({
+        default: { access_token: FIXTURE_ACCESS_TOKEN, refresh_token: FIXTURE_REFRESH_TOKEN, ...tokens },
+    });
+    setTokenStore(store);
+}
+
+function tokenRequests() {
+    return fetchSpy.mock.calls.filter(([input]) => String(input).endsWith("/token"));
+}
+
+function apiRequests() {
+    return fetchSpy.mock.calls.filter(([input]) => !String(input).endsWith("/token"));
+}
+
+// Answer the next API calls with these errors before the fake sees them
+function failNext(...responses: { status: number; retryAfter?: string }[]) {
+    fetchSpy.mockImplementation(async (input, init) => {
+        const next = String(input).endsWith("/token") ? undefined : responses.shift();
+        if (!next) return fake.fetch(input, init);
+        return Response.json([{ error_key: "unavailable", error_message: `Upstream error ${next.status}` }], {
+            status: next.status,
+            headers: next.retryAfter ? { "Retry-After": next.retryAfter } : undefined,
+        });
+    });
+}
+
+// Retry sleeps return at once; the delays they were asked for are recorded instead
+function skipSleeps() {
+    const delays: number[] = [];
+    vi.spyOn(globalThis, "setTimeout").mockImplementation(((callback: () => void, ms?: number) => {
+        delays.push(ms ?? 0);
+        callback();
+        return 0;
+    }) as unknown as typeof setTimeout);
+    return delays;
+}
+
+beforeEach(() => {
+    useFake();
+    connect();
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+});
+
+describe("ccFetchJson token refresh", () => {
+    it("uses the stored access token", async () => {
+        const { status, data } = await ccFetchJson<ContactsResponse>({ path: "/contacts", query: { limit: 5 } });
+
+        expect(status).toBe(200);
+        expect(data.contacts).toHaveLength(5);
+        expect(tokenRequests()).toHaveLength(0);
+    });
+
+    it("refreshes the token after a 401 and retries the request once", async () => {
+        fake.expireAccessTokens();
+
+        const { status, data } = await ccFetchJson<ContactsResponse>({ path: "/contacts", query: { limit: 5 } });
+
+        expect(status).toBe(200);
+        expect(data.contacts).toHaveLength(5);
+        expect(fake.requests).toEqual([
+            { method: "GET", path: "/contacts" },
+            { method: "GET", path: "/contacts" },
+        ]);
+        expect(tokenRequests()).toHaveLength(1);
+
+        const saved = await store.load("default");
+        expect(saved?.access_token).not.toBe(FIXTURE_ACCESS_TOKEN);
+        expect(saved?.refresh_token).toBe(FIXTURE_REFRESH_TOKEN);
+        expect(saved?.expires_at).toBeGreaterThan(Date.now());
+    });
+
+    it("shares one refresh between concurrent requests", async () => {
+        fake.expireAccessTokens();
+
+        const results = await Promise.all([
+            ccFetchJson({ path: "/contacts" }),
+            ccFetchJson({ path: "/contact_lists" }),
+            ccFetchJson({ path: "/contact_tags" }),
+        ]);
+
+        expect(results.map((r) => r.status)).toEqual([200, 200, 200]);
+        expect(tokenRequests()).toHaveLength(1);
+    });
+
+    it("does not retry a second 401 after refreshing", async () => {
+        useFake({ accessTokenTtlS: 0 });
+
+        await expect(ccFetchJson({ path: "/contacts" })).rejects.toMatchObject({
+            status: 401,
+            details: { attempts: 1, response: [{ error_key: "unauthorized", error_message: "Unauthorized" }] },
+        });
+        expect(fake.requests).toHaveLength(2);
+        expect(tokenRequests()).toHaveLength(1);
+    });
+
+    it("fails without retrying when the refresh token is rejected", async () => {
+        connect({ refresh_token: "revoked" });
+        fake.expireAccessTokens();
+
+        await expect(ccFetchJson({ path: "/contacts" })).rejects.toMatchObject({ status: 400 });
+        expect(fake.requests).toHaveLength(1);
+    });
+
+    it("refreshes ahead of expiry without a 401", async () => {
+        connect({ expires_at: Date.now() + 1000 });
+
+        const { status } = await ccFetchJson({ path: "/contacts" });
+
+        expect(status).toBe(200);
+        expect(fake.requests).toHaveLength(1);
+        expect(tokenRequests()).toHaveLength(1);
+    });
+
+    it("stores a rotated refresh token", async () => {
+        useFake({ rotateRefreshTokens: true });
+        fake.expireAccessTokens();
+
+        await ccFetchJson({ path: "/contacts" });
+
+        const saved = await store.load("default");
+        expect(saved?.refresh_token).toMatch(/^fake-rt-/);
+    });
+});
+
+describe("ccFetchJson errors", () => {
+    it("uses the message from Constant Contact's error array", async () => {
+        const { email_address } = fake.state.contacts[0];
+
+        await expect(
+            ccFetchJson({
+                path: "/contacts",
+                method: "POST",
+                body: { email_address, create_source: "Account" },
+            })
+        ).rejects.toMatchObject({
+            status: 409,
+            upstream: true,
+            message: `Email address ${email_address?.address} is already in use.`,
+        });
+    });
+});
+
+describe("ccFetchJson retries", () => {
+    it("retries a 503 and returns the next response", async () => {
+        const delays = skipSleeps();
+        failNext({ status: 503 });
+
+        const { status, data } = await ccFetchJson<ContactsResponse>({ path: "/contacts", query: { limit: 5 } });
+
+        expect(status).toBe(200);
+        expect(data.contacts).toHaveLength(5);
+        expect(apiRequests()).toHaveLength(2);
+        expect(delays).toHaveLength(1);
+        expect(delays[0]).toBeLessThan(500);
+    });
+
+    it("waits for Retry-After given in seconds", async () => {
+        const delays = skipSleeps();
+        failNext({ status: 429, retryAfter: "2" });
+
+        await ccFetchJson({ path: "/contacts" });
+
+        expect(delays).toEqual([2000]);
+    });
+
+    it("waits for Retry-After given as an HTTP date", async () => {
+        vi.useFakeTimers({ toFake: ["Date"], now: Date.UTC(2026, 0, 1) });
+        const delays = skipSleeps();
+        failNext({ status: 429, retryAfter: new Date(Date.now() + 3000).toUTCString() });
+
+        await ccFetchJson({ path: "/contacts" });
+
+        expect(delays).toEqual([3000]);
+    });
+
+    it("fails fast when Retry-After is longer than 10 seconds", async () => {
+        const delays = skipSleeps();
+        failNext({ status: 429, retryAfter: "30" });
+
+        await expect(ccFetchJson({ path: "/contacts" })).rejects.toMatchObject({
+            status: 429,
+            details: { attempts: 1 },
+        });
+        expect(apiRequests()).toHaveLength(1);
+        expect(delays).toEqual([]);
+    });
+
+    it("does not retry with maxAttempts: 1", async () => {
+        failNext({ status: 503 });
+
+        await expect(ccFetchJson({ path: "/contacts", maxAttempts: 1 })).rejects.toMatchObject({
+            status: 503,
+            details: { attempts: 1 },
+        });
+        expect(apiRequests()).toHaveLength(1);
+    });
+
+    it("does not retry a POST without an idempotency key", async () => {
+        failNext({ status: 503 });
+
+        await expect(
+            ccFetchJson({ path: "/contacts", method: "POST", body: { email_address: { address: "new@example.com" } } })
+        ).rejects.toMatchObject({ status: 503, details: { attempts: 1 } });
+        expect(apiRequests()).toHaveLength(1);
+    });
+
+    it("retries a POST with an idempotency key and sends it on every attempt", async () => {
+        skipSleeps();
+        failNext({ status: 503 });
+
+        const { status } = await ccFetchJson({
+            path: "/contacts",
+            method: "POST",
+            body: { email_address: { address: "new@example.com" }, create_source: "Account" },
+            idempotencyKey: "create-new",
+        });
+
+        expect(status).toBe(201);
+        expect(apiRequests()).toHaveLength(2);
+        for (const [, init] of apiRequests()) {
+            expect(init?.headers).toMatchObject({ "Idempotency-Key": "create-new" });
+        }
+    });
+
+    it("reports every attempt and the last upstream body on the final error", async () => {
+        skipSleeps();
+        failNext({ status: 503 }, { status: 502 }, { status: 503 });
+
+        await expect(ccFetchJson({ path: "/contacts" })).rejects.toMatchObject({
+            status: 503,
+            upstream: true,
+            details: {
+                attempts: 3,
+                response: [{ error_key: "unavailable", error_message: "Upstream error 503" }],
+            },
+        });
+        expect(apiRequests()).toHaveLength(3);
+    });
+});
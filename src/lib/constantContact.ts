@@ -1,15 +1,32 @@
+import { DEFAULT_ACCOUNT_ID, type AccountSummary } from "@/lib/accounts";
+import { parseCcErrors } from "@/lib/apiError";
+import { requestToken, toStoredTokens } from "@/lib/oauth";
+import { DailyUsage, TokenBucket } from "@/lib/rateLimiter";
+import { createTokenStoreFromEnv, type StoredTokens, type TokenStore } from "@/lib/tokenStore";
+import type { ApiFieldErrors } from "@/types/api";
+import type { PagingLinks } from "@/types/constantContact";
+
 type FetchOpts = {
-    method?: "GET" | "POST";
+    method?: "GET" | "POST" | "PUT" | "DELETE";
     path: string;
     query?: Record<string, string | number | boolean | undefined>;
     body?: unknown;
+    // "text" returns the raw body as `data` (e.g. CSV export files)
+    responseType?: "json" | "text";
+    // account ID whose tokens to use (see accounts.ts); default account when omitted
+    account?: string;
+    // total tries for 429/5xx/network failures (default CC_RETRY_MAX_ATTEMPTS or 3; 1 = no retries)
+    maxAttempts?: number;
+    // sent as Idempotency-Key; lets non-GET requests be retried too
+    idempotencyKey?: string;
 };
 
-type CcTokenResponse = {
-    access_token: string;
-    refresh_token?: string; // may be present depending on refresh token type
-    expires_in?: number;
-    token_type?: string;
+type CcError = Error & {
+    status?: number;
+    details?: unknown;
+    retryAfterMs?: number;
+    fields?: ApiFieldErrors;
+    upstream?: boolean;
 };
 
 function requireEnv(name: string): string {
@@ -18,40 +35,294 @@ function requireEnv(name: string): string {
     return v;
 }
 
-// Keep the latest working access token in memory so refresh doesn't require editing .env.local
-let accessTokenCache: string | null = process.env.CC_ACCESS_TOKEN ?? null;
+function envNumber(name: string, fallback: number): number {
+    const n = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(n) ? n : fallback;
+}
+
+// Where refreshed/rotated tokens are persisted (see tokenStore.ts); swappable via setTokenStore
+let tokenStore: TokenStore = createTokenStoreFromEnv();
+
+// In-memory copy of the store per account, loaded lazily on first use
+const tokensCache = new Map<string, StoredTokens>();
+
+// Refresh this long before expires_at, so requests never go out with a token about to lapse
+const REFRESH_WINDOW_MS = Math.max(0, envNumber("CC_TOKEN_REFRESH_WINDOW_S", 300)) * 1000;
 
-// Prevent multiple simultaneous refreshes from spamming token endpoint
-let refreshInFlight: Promise<string> | null = null;
+// Prevent multiple simultaneous refreshes of one account from spamming token endpoint
+const refreshInFlight = new Map<string, Promise<string>>();
 
-export async function ccFetchJson(opts: FetchOpts) {
+// Retry policy for rate limits (429) and transient upstream failures
+const DEFAULT_MAX_ATTEMPTS = Number(process.env.CC_RETRY_MAX_ATTEMPTS) || 3;
+const RETRY_BASE_DELAY_MS = 500;
+// Longer waits (including Retry-After) fail fast instead of holding the request open
+const RETRY_MAX_DELAY_MS = 10_000;
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+// Shared by every account and route: Constant Contact's limits apply per application
+const requestLimiter = new TokenBucket(
+    envNumber("CC_RATE_LIMIT_PER_SEC", 4),
+    envNumber("CC_RATE_LIMIT_BURST", envNumber("CC_RATE_LIMIT_PER_SEC", 4))
+);
+const dailyUsage = new DailyUsage(envNumber("CC_DAILY_QUOTA", 10000));
+
+/**
+ * Call the Constant Contact API. 429/5xx responses and network failures are retried
+ * with exponential backoff (full jitter, or Retry-After when sent), but only for GET
+ * requests or when an idempotencyKey is given. Errors thrown from here carry
+ * `details: { attempts, response }` where `response` is the upstream error body, and
+ * `fields` when Constant Contact named the fields at fault (see apiError.ts).
+ * `T` is the expected response body (e.g. ContactsResponse); it is not checked at runtime.
+ */
+export async function ccFetchJson<T = unknown>(opts: FetchOpts): Promise<{ status: number; data: T }> {
     const baseUrl = requireEnv("CC_BASE_URL");
+    const account = opts.account ?? DEFAULT_ACCOUNT_ID;
+
+    const maxAttempts = Math.max(1, opts.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    const canRetry = (opts.method ?? "GET") === "GET" || Boolean(opts.idempotencyKey);
 
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return (await ccFetchJsonOnce(baseUrl, account, opts)) as { status: number; data: T };
+        } catch (e) {
+            const err = e as CcError;
+            const delay = canRetry && attempt < maxAttempts ? retryDelayMs(err, attempt) : null;
+            if (delay == null) {
+                err.details = { attempts: attempt, response: err.details ?? null };
+                throw err;
+            }
+            await sleep(delay);
+        }
+    }
+}
+
+async function ccFetchJsonOnce(baseUrl: string, account: string, opts: FetchOpts) {
     // 1) attempt with cached token
     try {
-        return await ccFetchJsonWithToken(baseUrl, getAccessToken(), opts);
-    } catch (e: any) {
+        return await ccFetchJsonWithToken(baseUrl, await getAccessToken(account), opts);
+    } catch (e) {
         // Only attempt refresh on 401, then retry once
-        if (e?.status === 401) {
-            const newToken = await refreshAccessToken();
+        if ((e as CcError | undefined)?.status === 401) {
+            const newToken = await refreshAccessToken(account);
             return await ccFetchJsonWithToken(baseUrl, newToken, opts);
         }
         throw e;
     }
 }
 
-function getAccessToken(): string {
-    if (!accessTokenCache) {
-        // fall back to env if cache cleared for some reason
-        accessTokenCache = process.env.CC_ACCESS_TOKEN ?? null;
+/**
+ * Extract the cursor from a paged response's `_links.next.href`
+ * (e.g. "/v3/contacts?cursor=bGltaXQ9..."). Returns null on the last page.
+ */
+export function getNextCursor(links: unknown): string | null {
+    const href = (links as PagingLinks | undefined)?.next?.href;
+    if (typeof href !== "string" || !href) return null;
+
+    try {
+        return new URL(href, "https://api.cc.email").searchParams.get("cursor");
+    } catch {
+        return null;
     }
-    if (!accessTokenCache) {
-        throw new Error("Missing environment variable: CC_ACCESS_TOKEN");
+}
+
+/**
+ * Normalize a paged response by adding `next_cursor` (see getNextCursor)
+ * so clients never have to parse `_links` themselves.
+ */
+export function withNextCursor<T extends { _links?: unknown }>(data: T): T & { next_cursor: string | null } {
+    return { ...data, next_cursor: getNextCursor(data._links) };
+}
+
+/**
+ * Follow `_links.next` until the collection is exhausted and return every item
+ * under `itemsKey` (e.g. "custom_fields"). Use for small, bounded collections only.
+ */
+export async function ccFetchAll<T>(opts: FetchOpts, itemsKey: string): Promise<T[]> {
+    const items: T[] = [];
+    let query = opts.query;
+
+    for (;;) {
+        const { data } = await ccFetchJson<Record<string, unknown> & { _links?: PagingLinks }>({ ...opts, query });
+        const page = data?.[itemsKey];
+        if (Array.isArray(page)) items.push(...(page as T[]));
+
+        const cursor = getNextCursor(data?._links);
+        if (!cursor) return items;
+        query = { cursor };
+    }
+}
+
+type WaitOpts = {
+    timeoutMs: number;
+    // first retry delay; doubles on each 202 up to maxDelayMs
+    initialDelayMs?: number;
+    maxDelayMs?: number;
+};
+
+/**
+ * ccFetchJson for endpoints that answer 202 while results are being computed
+ * (e.g. /contacts?segment_id=...). Retries with exponential backoff until a
+ * non-202 response arrives or timeoutMs elapses; on timeout the last 202 is returned.
+ */
+export async function ccFetchJsonUntilReady<T = unknown>(opts: FetchOpts, wait: WaitOpts) {
+    const deadline = Date.now() + wait.timeoutMs;
+    let delay = wait.initialDelayMs ?? 500;
+    const maxDelay = wait.maxDelayMs ?? 5000;
+
+    for (;;) {
+        const res = await ccFetchJson<T>(opts);
+        const remaining = deadline - Date.now();
+        if (res.status !== 202 || remaining <= 0) return res;
+
+        await sleep(Math.min(delay, remaining));
+        delay = Math.min(delay * 2, maxDelay);
     }
-    return accessTokenCache;
+}
+
+function sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// null = not retryable, or the server asked us to wait longer than RETRY_MAX_DELAY_MS
+function retryDelayMs(err: CcError, attempt: number): number | null {
+    // fetch() itself failed (connection reset, DNS, ...)
+    const networkError = err instanceof TypeError;
+    if (!networkError && !RETRYABLE_STATUS.has(err.status ?? 0)) return null;
+
+    if (err.retryAfterMs != null) {
+        return err.retryAfterMs <= RETRY_MAX_DELAY_MS ? err.retryAfterMs : null;
+    }
+
+    const cap = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    return Math.floor(Math.random() * cap);
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Throttling state for diagnostics: the per-second limiter and today's request count.
+ */
+export function getRateLimitStats() {
+    return {
+        rate_limit: {
+            per_second: requestLimiter.ratePerSec > 0 ? requestLimiter.ratePerSec : null,
+            burst: requestLimiter.burst,
+            queued: requestLimiter.queued,
+        },
+        daily_usage: dailyUsage.snapshot(),
+    };
+}
+
+/**
+ * Replace the token store (e.g. a MemoryTokenStore in tests). Drops the in-memory copy.
+ */
+export function setTokenStore(store: TokenStore) {
+    tokenStore = store;
+    tokensCache.clear();
+}
+
+/**
+ * Replace an account's tokens (e.g. after the device flow) and persist them.
+ * The in-memory copy is updated even when persisting fails; the error is rethrown.
+ */
+export async function saveTokens(account: string, tokens: StoredTokens) {
+    tokensCache.set(account, tokens);
+    await tokenStore.save(account, tokens);
+}
+
+/**
+ * Whether an account has tokens, and who connected it (if known). Never exposes the tokens.
+ */
+export async function getConnectionStatus(account: string) {
+    const tokens = await getTokens(account);
+    return {
+        account_id: account,
+        connected: Boolean(tokens?.access_token || tokens?.refresh_token),
+        connected_as: tokens?.connected_as ?? null,
+        expires_at: tokens?.expires_at ?? null,
+    };
+}
+
+/**
+ * Every account with stored tokens, plus the default account (env tokens) when configured.
+ */
+export async function listAccounts(): Promise<AccountSummary[]> {
+    const ids = new Set(await tokenStore.list());
+    if (envTokens()) ids.add(DEFAULT_ACCOUNT_ID);
+
+    const accounts = await Promise.all([...ids].map((id) => getConnectionStatus(id)));
+    return accounts
+        .map(({ account_id, connected, connected_as }) => ({ account_id, connected, connected_as }))
+        .sort((a, b) => a.account_id.localeCompare(b.account_id));
+}
+
+// Stored tokens win over env: they hold the latest refresh and any rotated refresh token.
+// Env tokens only seed the default account.
+async function getTokens(account: string): Promise<StoredTokens | null> {
+    let tokens = tokensCache.get(account) ?? null;
+    if (!tokens) {
+        tokens = (await tokenStore.load(account)) ?? (account === DEFAULT_ACCOUNT_ID ? envTokens() : null);
+        if (tokens) tokensCache.set(account, tokens);
+    }
+    return tokens;
+}
+
+function envTokens(): StoredTokens | null {
+    const accessToken = process.env.CC_ACCESS_TOKEN;
+    const refreshToken = process.env.CC_REFRESH_TOKEN;
+    if (!accessToken && !refreshToken) return null;
+    return { access_token: accessToken ?? "", refresh_token: refreshToken };
+}
+
+async function getAccessToken(account: string): Promise<string> {
+    const tokens = await getTokens(account);
+
+    // Refresh ahead of expiry (concurrent callers share the single in-flight refresh)
+    if (tokens?.access_token && tokens.refresh_token && isExpiring(tokens)) {
+        try {
+            return await refreshAccessToken(account);
+        } catch (e) {
+            // Still inside the safety window: the current token works until it actually expires
+            if (tokens.expires_at && tokens.expires_at > Date.now()) {
+                console.error("Proactive Constant Contact token refresh failed:", e);
+                return tokens.access_token;
+            }
+            throw e;
+        }
+    }
+
+    if (tokens?.access_token) return tokens.access_token;
+
+    // No access token yet, but a refresh token can mint one
+    if (tokens?.refresh_token) return refreshAccessToken(account);
+
+    if (account !== DEFAULT_ACCOUNT_ID) {
+        const err = new Error(`Account "${account}" is not connected: open /setup to connect it.`) as Error & {
+            status?: number;
+        };
+        err.status = 404;
+        throw err;
+    }
+    throw new Error("Not connected to Constant Contact: open /setup or set CC_ACCESS_TOKEN.");
+}
+
+// Tokens without expires_at (e.g. from env) are only refreshed on a 401
+function isExpiring(tokens: StoredTokens) {
+    return tokens.expires_at != null && tokens.expires_at - REFRESH_WINDOW_MS <= Date.now();
 }
 
 async function ccFetchJsonWithToken(baseUrl: string, token: string, opts: FetchOpts) {
+    // Every request (retries included) waits its turn, so bursts queue instead of hitting 429
+    await requestLimiter.take();
+    dailyUsage.reserve(opts.account ?? DEFAULT_ACCOUNT_ID);
+
     const url = new URL(`${baseUrl.replace(/\/$/, "")}${opts.path}`);
 
     if (opts.query) {
@@ -64,8 +335,9 @@ async function ccFetchJsonWithToken(baseUrl: string, token: string, opts: FetchO
         method: opts.method ?? "GET",
         headers: {
             Authorization: `Bearer ${token}`,
-            Accept: "application/json",
+            Accept: opts.responseType === "text" ? "*/*" : "application/json",
             ...(opts.body ? { "Content-Type": "application/json" } : {}),
+            ...(opts.idempotencyKey ? { "Idempotency-Key": opts.idempotencyKey } : {}),
         },
         body: opts.body ? JSON.stringify(opts.body) : undefined,
         cache: "no-store",
@@ -76,70 +348,64 @@ async function ccFetchJsonWithToken(baseUrl: string, token: string, opts: FetchO
 
     // res.ok is true for 200–299 (including 202)
     if (!res.ok) {
+        // Usually an array of { error_key, error_message }; some endpoints answer with an object
+        const ccErrors = parseCcErrors(data);
         const message =
+            ccErrors?.message ||
             (data && (data.message || data.error || data.title || data.error_message)) ||
             `Constant Contact API error (${res.status})`;
-        const err = new Error(message) as Error & { status?: number; details?: unknown };
+        const err = new Error(message) as CcError;
         err.status = res.status;
+        err.upstream = true;
+        if (ccErrors && Object.keys(ccErrors.fields).length > 0) err.fields = ccErrors.fields;
         err.details = data ?? text;
+        err.retryAfterMs = parseRetryAfter(res.headers.get("retry-after"));
         throw err;
     }
 
+    if (opts.responseType === "text") {
+        return { status: res.status, data: text };
+    }
+
     return { status: res.status, data: data ?? {} };
 }
 
-async function refreshAccessToken(): Promise<string> {
-    if (refreshInFlight) return refreshInFlight;
-
-    refreshInFlight = (async () => {
-        const clientId = requireEnv("CC_CLIENT_ID");
-        const refreshToken = requireEnv("CC_REFRESH_TOKEN");
-
-        const res = await fetch("https://authz.constantcontact.com/oauth2/default/v1/token", {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/x-www-form-urlencoded",
-                Accept: "application/json",
-            },
-            body: new URLSearchParams({
-                grant_type: "refresh_token",
-                refresh_token: refreshToken,
-                client_id: clientId,
-            }).toString(),
-            cache: "no-store",
-        });
-
-        const text = await res.text();
-        const json = text ? safeJson(text) : null;
-
-        if (!res.ok) {
-            const message =
-                (json && (json.error_description || json.error || json.message)) ||
-                `Failed to refresh Constant Contact token (${res.status})`;
-            const err = new Error(message) as Error & { status?: number; details?: unknown };
-            err.status = res.status;
-            err.details = json ?? text;
-            throw err;
-        }
+async function refreshAccessToken(account: string): Promise<string> {
+    const pending = refreshInFlight.get(account);
+    if (pending) return pending;
 
-        const tokenResp = (json ?? {}) as CcTokenResponse;
-        if (!tokenResp.access_token) {
-            throw new Error("Token refresh succeeded but no access_token was returned.");
+    const refresh = (async () => {
+        const current = await getTokens(account);
+        const refreshToken =
+            current?.refresh_token ||
+            (account === DEFAULT_ACCOUNT_ID ? requireEnv("CC_REFRESH_TOKEN") : null);
+        if (!refreshToken) {
+            throw new Error(`Account "${account}" has no refresh token: reconnect it at /setup.`);
         }
 
-        // Update in-memory access token
-        accessTokenCache = tokenResp.access_token;
+        const tokenResp = await requestToken(
+            { grant_type: "refresh_token", refresh_token: refreshToken },
+            "Failed to refresh Constant Contact token"
+        );
+
+        // Rotating refresh tokens: the old one is now invalid, so persist the new one
+        // before anything else can use it. Long-lived tokens keep the current one.
+        const next = { ...toStoredTokens(tokenResp, refreshToken), connected_as: current?.connected_as };
+        try {
+            await saveTokens(account, next);
+        } catch (e) {
+            // Keep serving with the in-memory tokens; only persistence across restarts is lost
+            console.error("Failed to persist Constant Contact tokens:", e);
+        }
 
-        // If using rotating refresh tokens and CC returns a new refresh token, we cannot safely persist it
-        // without storage. For the take-home, we keep using the original CC_REFRESH_TOKEN from env.
-        // (If you switch to rotating refresh tokens, add persistent storage for refresh_token.)
-        return accessTokenCache;
+        return next.access_token;
     })();
+    refreshInFlight.set(account, refresh);
 
     try {
-        return await refreshInFlight;
+        return await refresh;
     } finally {
-        refreshInFlight = null;
+        refreshInFlight.delete(account);
     }
 }
 
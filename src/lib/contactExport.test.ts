@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { contactsToCsv } from "@/lib/contactExport";
+
+// The first_name cell of a one-contact export; every other column but contact_id is empty
+function firstNameCell(first_name: string): string {
+    const [, row] = contactsToCsv([{ contact_id: "c1", first_name }]).split(/\r\n(?=c1,)/);
+    return row.replace(/^c1,+|,+\r\n$/g, "");
+}
+
+describe("contactsToCsv", () => {
+    it("leaves plain values alone", () => {
+        expect(firstNameCell("Ann")).toBe("Ann");
+        expect(firstNameCell("Mary-Jane")).toBe("Mary-Jane");
+    });
+
+    it("quotes cells containing commas and quotes", () => {
+        expect(firstNameCell('Ann "A", Jr')).toBe('"Ann ""A"", Jr"');
+    });
+
+    it.each([
+        ['=HYPERLINK("http://x")', `"'=HYPERLINK(""http://x"")"`],
+        ["+1+1", "'+1+1"],
+        ["-2+3", "'-2+3"],
+        ["@SUM(A1)", "'@SUM(A1)"],
+        ["\tTab", "'\tTab"],
+        ["\rReturn", `"'\rReturn"`],
+    ])("prefixes the formula %j with a quote", (value, cell) => {
+        expect(firstNameCell(value)).toBe(cell);
+    });
+});
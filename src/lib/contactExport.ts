@@ -0,0 +1,77 @@
+import type { Contact } from "@/types/constantContact";
+
+/**
+ * Flattening + CSV rendering for GET /api/contacts/export (direct mode).
+ */
+
+export const EXPORT_FORMATS = ["csv", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Sub-resources pulled in for exports (notes are left out: unbounded and free text)
+export const EXPORT_INCLUDE = [
+    "custom_fields",
+    "list_memberships",
+    "phone_numbers",
+    "street_addresses",
+    "taggings",
+].join(",");
+
+const COLUMNS: [string, (c: Contact) => string | number | undefined][] = [
+    ["contact_id", (c) => c.contact_id],
+    ["email_address", (c) => c.email_address?.address],
+    ["permission_to_send", (c) => c.email_address?.permission_to_send],
+    ["first_name", (c) => c.first_name],
+    ["last_name", (c) => c.last_name],
+    ["job_title", (c) => c.job_title],
+    ["company_name", (c) => c.company_name],
+    ["birthday_month", (c) => c.birthday_month],
+    ["birthday_day", (c) => c.birthday_day],
+    ["anniversary", (c) => c.anniversary],
+    ["sms_address", (c) => c.sms_channel?.full_sms_address ?? c.sms_channel?.sms_address],
+    [
+        "phone_numbers",
+        (c) =>
+            c.phone_numbers
+                ?.map((p) => (p.kind ? `${p.kind}: ${p.phone_number ?? ""}` : p.phone_number ?? ""))
+                .join("; "),
+    ],
+    ["street", (c) => c.street_addresses?.[0]?.street],
+    ["city", (c) => c.street_addresses?.[0]?.city],
+    ["state", (c) => c.street_addresses?.[0]?.state],
+    ["postal_code", (c) => c.street_addresses?.[0]?.postal_code],
+    ["country", (c) => c.street_addresses?.[0]?.country],
+    ["list_memberships", (c) => c.list_memberships?.join("; ")],
+    ["taggings", (c) => c.taggings?.join("; ")],
+    [
+        "custom_fields",
+        (c) => c.custom_fields?.map((f) => `${f.custom_field_id}=${f.value ?? ""}`).join("; "),
+    ],
+    ["create_source", (c) => c.create_source],
+    ["created_at", (c) => c.created_at],
+    ["updated_at", (c) => c.updated_at],
+];
+
+export function isExportFormat(v: string): v is ExportFormat {
+    return (EXPORT_FORMATS as readonly string[]).includes(v);
+}
+
+/**
+ * Render contacts as CSV (header row + one row per contact, CRLF line endings).
+ */
+export function contactsToCsv(contacts: Contact[]): string {
+    const lines = [COLUMNS.map(([name]) => csvCell(name)).join(",")];
+    for (const c of contacts) {
+        lines.push(COLUMNS.map(([, get]) => csvCell(get(c))).join(","));
+    }
+    return lines.join("\r\n") + "\r\n";
+}
+
+/* ---------------- helpers ---------------- */
+
+function csvCell(v: string | number | undefined): string {
+    if (v == null) return "";
+    // Text that a spreadsheet would run as a formula (e.g. "=HYPERLINK(...)" from a sign-up
+    // form) is prefixed with ' so it opens as plain text
+    const s = typeof v === "string" && /^[=+\-@\t\r]/.test(v) ? `'${v}` : String(v);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
@@ -0,0 +1,152 @@
+import { validateContact, type ContactFieldErrors } from "@/lib/contactSchema";
+
+/**
+ * CSV import helpers shared by the import page (preview) and POST /api/imports.
+ * Rows are validated with the same rules as POST /api/contacts, then converted
+ * to Constant Contact's contacts_json_import row format.
+ */
+
+// Target fields a CSV column can be mapped to (contacts_json_import keys)
+export const IMPORT_FIELDS = [
+    { value: "email", label: "Email address" },
+    { value: "first_name", label: "First name" },
+    { value: "last_name", label: "Last name" },
+    { value: "job_title", label: "Job title" },
+    { value: "company_name", label: "Company name" },
+    { value: "birthday_month", label: "Birthday month" },
+    { value: "birthday_day", label: "Birthday day" },
+    { value: "anniversary", label: "Anniversary" },
+    { value: "phone", label: "Phone" },
+    { value: "home_phone", label: "Home phone" },
+    { value: "work_phone", label: "Work phone" },
+    { value: "mobile_phone", label: "Mobile phone" },
+    { value: "street", label: "Street" },
+    { value: "city", label: "City" },
+    { value: "state", label: "State" },
+    { value: "zip", label: "Postal code" },
+    { value: "country", label: "Country" },
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]["value"];
+
+// CSV header -> target field ("" / missing = ignore column)
+export type ImportMapping = Record<string, ImportField | "">;
+
+export type ImportRow = Partial<Record<ImportField, string>>;
+
+// Constant Contact limits for contacts_json_import
+export const MAX_IMPORT_ROWS = 40000;
+export const MAX_IMPORT_LISTS = 50;
+export const MAX_IMPORT_TAGS = 50;
+
+const IMPORT_FIELD_SET = new Set<string>(IMPORT_FIELDS.map((f) => f.value));
+
+export function isImportField(v: string): v is ImportField {
+    return IMPORT_FIELD_SET.has(v);
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and CRLF/LF line endings.
+ * Blank lines are dropped.
+ */
+export function parseCsvText(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    // Strip a UTF-8 BOM (Excel exports)
+    const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < src.length; i++) {
+        const c = src[i];
+
+        if (inQuotes) {
+            if (c === '"' && src[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (c === '"') {
+                inQuotes = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"') {
+            inQuotes = true;
+        } else if (c === ",") {
+            row.push(field);
+            field = "";
+        } else if (c === "\n" || c === "\r") {
+            if (c === "\r" && src[i + 1] === "\n") i++;
+            row.push(field);
+            field = "";
+            if (row.some((v) => v.trim())) rows.push(row);
+            row = [];
+        } else {
+            field += c;
+        }
+    }
+
+    row.push(field);
+    if (row.some((v) => v.trim())) rows.push(row);
+
+    return rows;
+}
+
+/**
+ * Guess a mapping from header names like "First Name" or "e-mail".
+ */
+export function guessMapping(headers: string[]): ImportMapping {
+    const mapping: ImportMapping = {};
+    const used = new Set<string>();
+
+    for (const h of headers) {
+        const key = h.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+        const guess =
+            key === "email_address" || key === "e_mail" ? "email"
+                : key === "first" ? "first_name"
+                    : key === "last" ? "last_name"
+                        : key === "company" ? "company_name"
+                            : key === "postal_code" || key === "zip_code" ? "zip"
+                                : key;
+
+        if (isImportField(guess) && !used.has(guess)) {
+            mapping[h] = guess;
+            used.add(guess);
+        } else {
+            mapping[h] = "";
+        }
+    }
+
+    return mapping;
+}
+
+export function mapRow(headers: string[], values: string[], mapping: ImportMapping): ImportRow {
+    const row: ImportRow = {};
+    headers.forEach((h, i) => {
+        const field = mapping[h];
+        const value = (values[i] ?? "").trim();
+        if (field && value) row[field] = value;
+    });
+    return row;
+}
+
+/**
+ * Run a mapped row through the shared contact rules (see contactSchema.ts).
+ * Returns the problems keyed by field path, or null when the row is valid.
+ */
+export function validateImportRow(row: ImportRow): ContactFieldErrors | null {
+    const result = validateContact(
+        {
+            email: row.email,
+            first_name: row.first_name,
+            last_name: row.last_name,
+            job_title: row.job_title,
+            company_name: row.company_name,
+            birthday_month: row.birthday_month,
+            birthday_day: row.birthday_day,
+            anniversary: row.anniversary,
+        },
+        "import"
+    );
+    return result.ok ? null : result.fields;
+}
@@ -0,0 +1,176 @@
+/**
+ * Query validation for contact collection reads.
+ * Shared by GET /api/contacts and GET /api/contacts/export.
+ */
+
+export type ContactsQuery = Record<string, string | number | boolean | undefined>;
+
+export type ContactsQueryResult =
+    | { ok: true; query: ContactsQuery }
+    | { ok: false; error: string };
+
+const ALLOWED_INCLUDE = new Set([
+    "custom_fields",
+    "list_memberships",
+    "phone_numbers",
+    "street_addresses",
+    "taggings",
+    "notes",
+]);
+
+const ALLOWED_STATUS = new Set([
+    "all",
+    "active",
+    "deleted",
+    "not_set",
+    "pending_confirmation",
+    "temp_hold",
+    "unsubscribed",
+]);
+
+const ALLOWED_SMS_STATUS = new Set([
+    "all",
+    "explicit",
+    "unsubscribed",
+    "pending_confirmation",
+    "not_set",
+]);
+
+/**
+ * Validate the filter parameters of GET /api/contacts and build the
+ * Constant Contact /contacts query. Does not handle `cursor`.
+ */
+export function parseContactsQuery(sp: URLSearchParams): ContactsQueryResult {
+    const q: ContactsQuery = {};
+
+    // limit: 1-500, default 50
+    const limitRaw = sp.get("limit") ?? "50";
+    const limit = clampInt(limitRaw, 1, 500);
+    if (limit == null) {
+        return fail("limit must be an integer between 1 and 500.");
+    }
+    q.limit = limit;
+
+    // include_count: boolean
+    const includeCountRaw = sp.get("include_count");
+    if (includeCountRaw != null) {
+        const b = parseBoolean(includeCountRaw);
+        if (b == null) {
+            return fail("include_count must be true or false.");
+        }
+        q.include_count = b;
+    }
+
+    // include: csv of subresources
+    const includeRaw = sp.get("include");
+    if (includeRaw) {
+        const values = parseCsv(includeRaw);
+        for (const v of values) {
+            if (!ALLOWED_INCLUDE.has(v)) {
+                return fail(`invalid include "${v}".`);
+            }
+        }
+        q.include = values.join(",");
+    }
+
+    // status: csv of status values
+    const statusRaw = sp.get("status");
+    if (statusRaw) {
+        const values = parseCsv(statusRaw);
+        for (const v of values) {
+            if (!ALLOWED_STATUS.has(v)) {
+                return fail(`invalid status "${v}".`);
+            }
+        }
+        q.status = values.join(",");
+    }
+
+    // email: specific email address search
+    const emailRaw = sp.get("email");
+    if (emailRaw && emailRaw.trim()) {
+        q.email = emailRaw.trim();
+    }
+
+    // lists: up to 25 list_ids (comma separated)
+    const listsRaw = sp.get("lists");
+    if (listsRaw) {
+        const values = parseCsv(listsRaw);
+        if (values.length > 25) {
+            return fail("lists can have at most 25 items.");
+        }
+        q.lists = values.join(",");
+    }
+
+    // segment_id: single segment ID (can only be combined with limit)
+    const segmentIdRaw = sp.get("segment_id");
+    if (segmentIdRaw && segmentIdRaw.trim()) {
+        q.segment_id = segmentIdRaw.trim();
+    }
+
+    // tags: up to 50 tag_ids (comma separated)
+    const tagsRaw = sp.get("tags");
+    if (tagsRaw) {
+        const values = parseCsv(tagsRaw);
+        if (values.length > 50) {
+            return fail("tags can have at most 50 items.");
+        }
+        q.tags = values.join(",");
+    }
+
+    // Date filters (ISO-8601 format)
+    const dateParams = [
+        "updated_after",
+        "updated_before",
+        "created_after",
+        "created_before",
+        "optout_after",
+        "optout_before",
+    ];
+    for (const param of dateParams) {
+        const val = sp.get(param);
+        if (val && val.trim()) {
+            q[param] = val.trim();
+        }
+    }
+
+    // sms_status: csv of sms status values
+    const smsStatusRaw = sp.get("sms_status");
+    if (smsStatusRaw) {
+        const values = parseCsv(smsStatusRaw);
+        for (const v of values) {
+            if (!ALLOWED_SMS_STATUS.has(v)) {
+                return fail(`invalid sms_status "${v}".`);
+            }
+        }
+        q.sms_status = values.join(",");
+    }
+
+    return { ok: true, query: q };
+}
+
+/* ---------------- helpers ---------------- */
+
+function fail(message: string): ContactsQueryResult {
+    return { ok: false, error: `Bad request: ${message}` };
+}
+
+function parseCsv(v: string): string[] {
+    return v
+        .split(",")
+        .map((s) => s.trim())
+        .filter(Boolean);
+}
+
+function parseBoolean(v: string): boolean | null {
+    const s = v.trim().toLowerCase();
+    if (s === "true") return true;
+    if (s === "false") return false;
+    return null;
+}
+
+function clampInt(v: string, min: number, max: number): number | null {
+    const n = Number.parseInt(v, 10);
+    if (Number.isNaN(n)) return null;
+    if (n < min || n > max) return null;
+    return n;
+}
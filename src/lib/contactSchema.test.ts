@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { toSignUpRequest, validateContact } from "@/lib/contactSchema";
+
+describe("validateContact", () => {
+    it("normalizes form-shaped input (strings, JSON textareas, placeholders)", () => {
+        const result = validateContact(
+            {
+                email_address: { address: " ann@example.org ", permission_to_send: "explicit" },
+                first_name: "Ann",
+                create_source: "",
+                birthday_month: "4",
+                birthday_day: "12",
+                sms_channel: {
+                    full_sms_address: "",
+                    sms_channel_consents: "[]",
+                },
+                phone_numbers: '[{"phone_number":"5125550000","kind":"mobile"}]',
+                street_addresses: "[{}]",
+                notes: "",
+                list_memberships: [],
+                taggings: "a, b,",
+            },
+            "create"
+        );
+
+        expect(result).toEqual({
+            ok: true,
+            payload: {
+                create_source: "Account",
+                email_address: { address: "ann@example.org", permission_to_send: "explicit" },
+                first_name: "Ann",
+                birthday_month: 4,
+                birthday_day: 12,
+                phone_numbers: [{ phone_number: "5125550000", kind: "mobile" }],
+                taggings: ["a", "b"],
+            },
+        });
+    });
+
+    it("keys the same errors by field path for every problem", () => {
+        const result = validateContact(
+            { email: "nope", permission_to_send: "explicit", last_name: "L".repeat(51), birthday_month: "x", birthday_day: "1" },
+            "create"
+        );
+
+        expect(result).toEqual({
+            ok: false,
+            error: "Bad request: email_address must be a valid email address.",
+            fields: {
+                "email_address.address": "email_address must be a valid email address.",
+                last_name: "last_name can be at most 50 characters.",
+                birthday_month: "birthday_month must be between 1 and 12.",
+            },
+        });
+    });
+
+    it("keys nested and array item problems by their path, with bare messages", () => {
+        const result = validateContact(
+            {
+                email_address: { address: "ann@example.org", permission_to_send: "maybe" },
+                sms_channel: { full_sms_address: "call me", sms_channel_consents: [{ sms_consent_permission: "explicit" }] },
+                phone_numbers: [{ phone_number: "5125550000", kind: "mobile" }, { phone_number: "5125550001", kind: "fax" }],
+                street_addresses: [{ kind: "home" }],
+            },
+            "update"
+        );
+
+        expect(result).toMatchObject({
+            ok: false,
+            fields: {
+                "email_address.permission_to_send":
+                    "permission_to_send must be one of: explicit, implicit, not_set, pending_confirmation, temp_hold, unsubscribed.",
+                "sms_channel.sms_channel_consents[0].consent_type": "consent_type must be one of: promotional_sms.",
+                "sms_channel.full_sms_address": "full_sms_address must be a phone number with country code, e.g. 15125551234.",
+                "phone_numbers[1].kind": "kind must be one of: home, work, mobile, other.",
+                "street_addresses[0]": "street address needs at least one of street, city, state, postal_code or country.",
+            },
+        });
+    });
+
+    it.each([
+        ["sms_full_address", { sms_full_address: "15125551234" }],
+        ["sms_channel.sms_address", { sms_channel: { sms_address: "15125551234" } }],
+    ])("still reads the SMS number from %s", (_, sms) => {
+        const consents = [{ sms_consent_permission: "explicit", consent_type: "promotional_sms" }];
+
+        expect(validateContact({ ...sms, sms_channel_consents: consents }, "update")).toEqual({
+            ok: true,
+            payload: {
+                update_source: "Account",
+                sms_channel: { full_sms_address: "+15125551234", sms_channel_consents: consents },
+            },
+        });
+    });
+
+    it("does not require a permission or source for import rows", () => {
+        const result = validateContact({ email: "ann@example.org", first_name: "Ann" }, "import");
+
+        expect(result).toEqual({
+            ok: true,
+            payload: {
+                email_address: { address: "ann@example.org", permission_to_send: "implicit" },
+                first_name: "Ann",
+            },
+        });
+    });
+
+    it("treats a non-object body as empty", () => {
+        expect(validateContact(null, "update")).toMatchObject({
+            ok: false,
+            fields: { contact: "At least one of first_name, last_name, email_address, or sms_channel is required." },
+        });
+    });
+});
+
+describe("toSignUpRequest", () => {
+    it("flattens the email, phone number and address for sign_up_form", () => {
+        expect(
+            toSignUpRequest({
+                create_source: "Account",
+                email_address: { address: "ann@example.org", permission_to_send: "explicit" },
+                first_name: "Ann",
+                phone_numbers: [{ phone_number: "5125550000", kind: "mobile" }],
+                street_addresses: [{ kind: "home", city: "Austin" }],
+                list_memberships: ["list-1"],
+            })
+        ).toEqual({
+            ok: true,
+            request: {
+                email_address: "ann@example.org",
+                first_name: "Ann",
+                phone_number: "5125550000",
+                street_address: { kind: "home", city: "Austin" },
+                list_memberships: ["list-1"],
+            },
+        });
+    });
+
+    it("requires an email and a list, and allows one phone number and address", () => {
+        const phone = { phone_number: "5125550000", kind: "mobile" as const };
+
+        expect(
+            toSignUpRequest({
+                create_source: "Account",
+                first_name: "Ann",
+                phone_numbers: [phone, phone],
+                street_addresses: [{ kind: "home" }, { kind: "work" }],
+            })
+        ).toEqual({
+            ok: false,
+            error: "Bad request: email_address is required to update an existing contact.",
+            fields: {
+                "email_address.address": "email_address is required to update an existing contact.",
+                list_memberships: "list_memberships must have at least one list to update an existing contact.",
+                phone_numbers: "phone_numbers can have at most 1 item when updating an existing contact.",
+                street_addresses: "street_addresses can have at most 1 item when updating an existing contact.",
+            },
+        });
+    });
+});
@@ -0,0 +1,462 @@
+/**
+ * The one set of contact write rules, shared by the create form (before submitting),
+ * POST /api/contacts, PUT /api/contacts/[id] and the CSV import. Client-safe: no
+ * server-only imports.
+ *
+ * validateContact() returns either the normalized Constant Contact payload or every
+ * problem found, keyed by field path, so the browser and the API report the same errors.
+ */
+
+import type {
+    ContactCreateRequest,
+    ContactSignUpRequest,
+    ContactSource,
+    ContactUpdateRequest,
+    ContactWriteFields,
+    PermissionToSend,
+    PhoneNumberKind,
+    SmsConsentPermission,
+    SmsConsentType,
+    StreetAddressKind,
+} from "@/types/constantContact";
+
+export type ContactWriteMode = "create" | "update" | "import";
+
+// Field path → message. Paths point into Constant Contact's request body, like parsed
+// upstream errors (apiError.ts): "email_address.permission_to_send", "phone_numbers[1].kind".
+// "contact" is for rules about the contact as a whole.
+export type ContactFieldErrors = Record<string, string>;
+
+export const CONTACT_SOURCES = ["Account", "Contact"] as const satisfies readonly ContactSource[];
+
+export const PERMISSION_TO_SEND_VALUES = [
+    "explicit",
+    "implicit",
+    "not_set",
+    "pending_confirmation",
+    "temp_hold",
+    "unsubscribed",
+] as const satisfies readonly PermissionToSend[];
+
+export const PHONE_NUMBER_KINDS = ["home", "work", "mobile", "other"] as const satisfies readonly PhoneNumberKind[];
+
+export const STREET_ADDRESS_KINDS = ["home", "work", "other"] as const satisfies readonly StreetAddressKind[];
+
+export const SMS_CONSENT_PERMISSIONS = [
+    "explicit",
+    "not_set",
+    "pending_confirmation",
+    "unsubscribed",
+] as const satisfies readonly SmsConsentPermission[];
+
+export const SMS_CONSENT_TYPES = ["promotional_sms"] as const satisfies readonly SmsConsentType[];
+
+// Constant Contact limits for POST/PUT /contacts
+export const CONTACT_TEXT_MAX_LENGTH = 50;
+export const PHONE_NUMBER_MAX_LENGTH = 25;
+export const NOTE_MAX_LENGTH = 2000;
+export const STREET_ADDRESS_MAX_LENGTHS = { street: 255, city: 50, state: 50, postal_code: 50, country: 50 } as const;
+export const CONTACT_ARRAY_LIMITS = {
+    phone_numbers: 3,
+    street_addresses: 3,
+    custom_fields: 25,
+    notes: 150,
+    list_memberships: 50,
+    taggings: 50,
+} as const;
+
+/**
+ * Accepted request body. Besides Constant Contact's own shape, a few flat aliases
+ * are read: `email` / a string `email_address`, top-level `permission_to_send`,
+ * top-level `sms_channel_consents`, the older `sms_full_address` /
+ * `sms_channel.sms_address` for the SMS number, CSV strings for
+ * list_memberships/taggings and JSON strings for the array fields.
+ */
+export type ContactInput = {
+    email?: string;
+    email_address?: string | { address?: string; permission_to_send?: string };
+    permission_to_send?: string;
+    first_name?: string;
+    last_name?: string;
+    job_title?: string;
+    company_name?: string;
+    create_source?: string;
+    update_source?: string;
+    birthday_month?: number | string;
+    birthday_day?: number | string;
+    anniversary?: string;
+    sms_channel?: { full_sms_address?: string; sms_address?: string; sms_channel_consents?: unknown };
+    sms_full_address?: string;
+    sms_channel_consents?: unknown;
+    phone_numbers?: unknown;
+    street_addresses?: unknown;
+    notes?: unknown;
+    custom_fields?: unknown;
+    list_memberships?: string | string[];
+    taggings?: string | string[];
+};
+
+type JsonObject = Record<string, unknown>;
+
+// Validated body for Constant Contact; import rows carry neither source field
+export type ContactPayload<M extends ContactWriteMode = ContactWriteMode> = M extends "create"
+    ? ContactCreateRequest
+    : M extends "update"
+        ? ContactUpdateRequest
+        : ContactWriteFields;
+
+export type ContactValidationResult<M extends ContactWriteMode = ContactWriteMode> =
+    | { ok: true; payload: ContactPayload<M> }
+    | { ok: false; error: string; fields: ContactFieldErrors };
+
+export function validateContact<M extends ContactWriteMode>(input: unknown, mode: M): ContactValidationResult<M> {
+    const body: ContactInput = input && typeof input === "object" ? (input as ContactInput) : {};
+    const fields: ContactFieldErrors = {};
+    const payload: ContactWriteFields & { create_source?: ContactSource; update_source?: ContactSource } = {};
+
+    // Records the first problem per field
+    const reject = (path: string, message: string) => {
+        fields[path] ??= message;
+    };
+
+    // create_source on create, update_source on update; the import activity has neither
+    if (mode !== "import") {
+        const key = mode === "create" ? "create_source" : "update_source";
+        const source = body[key] == null || body[key] === "" ? "Account" : body[key];
+        if (!isOneOf(source, CONTACT_SOURCES)) {
+            reject(key, `${key} must be "Account" or "Contact".`);
+        } else {
+            payload[key] = source;
+        }
+    }
+
+    // Email + permission
+    const email = text(
+        typeof body.email_address === "object" && body.email_address
+            ? body.email_address.address
+            : body.email_address ?? body.email
+    );
+    const permission = text(
+        (typeof body.email_address === "object" && body.email_address?.permission_to_send) ||
+            body.permission_to_send
+    );
+
+    if (email) {
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+            reject("email_address.address", "email_address must be a valid email address.");
+        }
+
+        // The import activity applies implicit permission to every row, so rows don't carry one
+        if (mode === "import") {
+            payload.email_address = { address: email, permission_to_send: "implicit" };
+        } else if (!permission) {
+            reject("email_address.permission_to_send", "permission_to_send is required when email_address is provided.");
+        } else if (mode === "create" && permission !== "explicit") {
+            reject(
+                "email_address.permission_to_send",
+                'permission_to_send must be "explicit" when creating a contact with an email_address.'
+            );
+        } else if (!isOneOf(permission, PERMISSION_TO_SEND_VALUES)) {
+            reject(
+                "email_address.permission_to_send",
+                `permission_to_send must be one of: ${PERMISSION_TO_SEND_VALUES.join(", ")}.`
+            );
+        } else {
+            payload.email_address = { address: email, permission_to_send: permission };
+        }
+    }
+
+    // Names and job details: rejected rather than cut when over the limit
+    for (const key of ["first_name", "last_name", "job_title", "company_name"] as const) {
+        const value = text(body[key]);
+        if (value.length > CONTACT_TEXT_MAX_LENGTH) {
+            reject(key, `${key} can be at most ${CONTACT_TEXT_MAX_LENGTH} characters.`);
+        }
+        if (value) payload[key] = value;
+    }
+
+    // Birthday: month/day go together
+    const birthdayMonth = intField(body.birthday_month);
+    const birthdayDay = intField(body.birthday_day);
+    if (birthdayMonth !== undefined && (birthdayMonth === null || birthdayMonth < 1 || birthdayMonth > 12)) {
+        reject("birthday_month", "birthday_month must be between 1 and 12.");
+    }
+    if (birthdayDay !== undefined && (birthdayDay === null || birthdayDay < 1 || birthdayDay > 31)) {
+        reject("birthday_day", "birthday_day must be between 1 and 31.");
+    }
+    if ((birthdayMonth === undefined) !== (birthdayDay === undefined)) {
+        reject(
+            birthdayMonth === undefined ? "birthday_month" : "birthday_day",
+            "birthday_month and birthday_day must be provided together."
+        );
+    }
+    if (typeof birthdayMonth === "number" && typeof birthdayDay === "number") {
+        payload.birthday_month = birthdayMonth;
+        payload.birthday_day = birthdayDay;
+    }
+
+    const anniversary = text(body.anniversary);
+    if (anniversary) payload.anniversary = anniversary;
+
+    // SMS: Constant Contact needs the E.164 number and at least one consent
+    const smsAddress =
+        text(body.sms_channel?.full_sms_address) || text(body.sms_channel?.sms_address) || text(body.sms_full_address);
+    const smsConsents = parseItems(
+        "sms_channel_consents",
+        body.sms_channel_consents ?? body.sms_channel?.sms_channel_consents,
+        parseSmsConsent,
+        reject
+    );
+    // (null: the consents themselves were invalid and are already reported)
+    if (smsConsents && smsAddress && smsConsents.length === 0) {
+        reject(
+            "sms_channel.sms_channel_consents",
+            "sms_channel_consents must be a non-empty JSON array when full_sms_address is provided."
+        );
+    } else if (smsConsents && !smsAddress && smsConsents.length > 0) {
+        reject("sms_channel.full_sms_address", "full_sms_address is required when sms_channel_consents are provided.");
+    }
+    if (smsAddress) {
+        const e164 = smsAddress.startsWith("+") ? smsAddress : `+${smsAddress}`;
+        if (!/^\+\d{8,15}$/.test(e164)) {
+            reject(
+                "sms_channel.full_sms_address",
+                "full_sms_address must be a phone number with country code, e.g. 15125551234."
+            );
+        }
+        payload.sms_channel = { full_sms_address: e164, sms_channel_consents: smsConsents ?? [] };
+    }
+
+    // Sub-resource arrays
+    const phoneNumbers = parseItems("phone_numbers", body.phone_numbers, parsePhoneNumber, reject);
+    if (phoneNumbers?.length) payload.phone_numbers = phoneNumbers;
+
+    const streetAddresses = parseItems("street_addresses", body.street_addresses, parseStreetAddress, reject);
+    if (streetAddresses?.length) payload.street_addresses = streetAddresses;
+
+    const notes = parseItems("notes", body.notes, parseNote, reject);
+    if (notes?.length) payload.notes = notes;
+
+    // Values are checked against the account's definitions server-side (customFieldDefinitions.ts)
+    const customFields = parseItems("custom_fields", body.custom_fields, parseCustomField, reject);
+    if (customFields?.length) payload.custom_fields = customFields;
+
+    // List and tag IDs
+    for (const key of ["list_memberships", "taggings"] as const) {
+        const ids = idList(body[key]);
+        if (ids.length > CONTACT_ARRAY_LIMITS[key]) {
+            reject(key, `${key} can have at most ${CONTACT_ARRAY_LIMITS[key]} items.`);
+        } else if (ids.length > 0) {
+            payload[key] = ids;
+        }
+    }
+
+    if (!payload.first_name && !payload.last_name && !email && !smsAddress) {
+        reject("contact", "At least one of first_name, last_name, email_address, or sms_channel is required.");
+    }
+
+    const messages = Object.values(fields);
+    if (messages.length > 0) {
+        return { ok: false, error: `Bad request: ${messages[0]}`, fields };
+    }
+    return { ok: true, payload: payload as ContactPayload<M> };
+}
+
+export type ContactSignUpResult =
+    | { ok: true; request: ContactSignUpRequest }
+    | { ok: false; error: string; fields: ContactFieldErrors };
+
+/**
+ * Reshapes a validated create payload for POST /contacts/sign_up_form (upsert by
+ * email). That endpoint needs an email address and at least one list, and takes a
+ * single phone number and street address; permission is always explicit there.
+ */
+export function toSignUpRequest(payload: ContactPayload<"create">): ContactSignUpResult {
+    const fields: ContactFieldErrors = {};
+    const { email_address, phone_numbers, street_addresses, list_memberships, ...rest } = payload;
+
+    if (!email_address) {
+        fields["email_address.address"] = "email_address is required to update an existing contact.";
+    }
+    if (!list_memberships?.length) {
+        fields.list_memberships = "list_memberships must have at least one list to update an existing contact.";
+    }
+    if (phone_numbers && phone_numbers.length > 1) {
+        fields.phone_numbers = "phone_numbers can have at most 1 item when updating an existing contact.";
+    }
+    if (street_addresses && street_addresses.length > 1) {
+        fields.street_addresses = "street_addresses can have at most 1 item when updating an existing contact.";
+    }
+
+    const messages = Object.values(fields);
+    if (messages.length > 0 || !email_address || !list_memberships) {
+        return { ok: false, error: `Bad request: ${messages[0]}`, fields };
+    }
+
+    // sign_up_form has no create_source
+    const request: ContactSignUpRequest & { create_source?: ContactSource } = {
+        ...rest,
+        email_address: email_address.address,
+        list_memberships,
+    };
+    delete request.create_source;
+    if (phone_numbers?.length) request.phone_number = phone_numbers[0].phone_number;
+    if (street_addresses?.length) request.street_address = street_addresses[0];
+
+    return { ok: true, request };
+}
+
+/* ---------------- helpers ---------------- */
+
+function text(v: unknown): string {
+    return typeof v === "string" ? v.trim() : "";
+}
+
+// undefined = not provided, null = not an integer
+function intField(v: unknown): number | null | undefined {
+    if (v == null || (typeof v === "string" && !v.trim())) return undefined;
+    const n = typeof v === "number" ? v : Number(String(v).trim());
+    return Number.isInteger(n) ? n : null;
+}
+
+type ItemKey = "sms_channel_consents" | "phone_numbers" | "street_addresses" | "notes" | "custom_fields";
+
+// What an item parser rejected: the item's own field ("" for the item as a whole) and why
+type ItemProblem = [field: string, message: string];
+
+function problem(field: string, message: string): ItemProblem {
+    return [field, message];
+}
+
+/**
+ * Parse an array field item by item. A bad item is reported at its path, e.g.
+ * "phone_numbers[1].kind"; returns null when any problem was found.
+ */
+function parseItems<T extends object>(
+    key: ItemKey,
+    value: unknown,
+    parseItem: (item: JsonObject) => T | ItemProblem,
+    reject: (path: string, message: string) => void
+): T[] | null {
+    const path = key === "sms_channel_consents" ? "sms_channel.sms_channel_consents" : key;
+    const items = jsonArray(value);
+    if (items === null) {
+        reject(path, `${key} must be a JSON array of objects.`);
+        return null;
+    }
+
+    const max = key === "sms_channel_consents" ? Infinity : CONTACT_ARRAY_LIMITS[key];
+    if (items.length > max) {
+        reject(path, `${key} can have at most ${max} items.`);
+        return null;
+    }
+
+    const parsed: T[] = [];
+    for (const [i, item] of items.entries()) {
+        const result = parseItem(item);
+        if (Array.isArray(result)) {
+            const [field, message] = result;
+            reject(field ? `${path}[${i}].${field}` : `${path}[${i}]`, message);
+            return null;
+        }
+        parsed.push(result);
+    }
+    return parsed;
+}
+
+function parsePhoneNumber(item: JsonObject) {
+    const phoneNumber = text(item.phone_number);
+    if (!phoneNumber) return problem("phone_number", "phone_number is required.");
+    if (phoneNumber.length > PHONE_NUMBER_MAX_LENGTH) {
+        return problem("phone_number", `phone_number can be at most ${PHONE_NUMBER_MAX_LENGTH} characters.`);
+    }
+
+    const kind = text(item.kind) || "other";
+    if (!isOneOf(kind, PHONE_NUMBER_KINDS)) return problem("kind", `kind must be one of: ${PHONE_NUMBER_KINDS.join(", ")}.`);
+
+    return { phone_number: phoneNumber, kind };
+}
+
+function parseStreetAddress(item: JsonObject) {
+    const kind = text(item.kind) || "home";
+    if (!isOneOf(kind, STREET_ADDRESS_KINDS)) return problem("kind", `kind must be one of: ${STREET_ADDRESS_KINDS.join(", ")}.`);
+
+    const address: { kind: StreetAddressKind } & Partial<Record<keyof typeof STREET_ADDRESS_MAX_LENGTHS, string>> = {
+        kind,
+    };
+    for (const [part, max] of Object.entries(STREET_ADDRESS_MAX_LENGTHS) as [keyof typeof STREET_ADDRESS_MAX_LENGTHS, number][]) {
+        const value = text(item[part]);
+        if (value.length > max) return problem(part, `${part} can be at most ${max} characters.`);
+        if (value) address[part] = value;
+    }
+    if (Object.keys(address).length === 1) {
+        return problem("", "street address needs at least one of street, city, state, postal_code or country.");
+    }
+
+    return address;
+}
+
+function parseNote(item: JsonObject) {
+    const content = text(item.content);
+    if (!content) return problem("content", "content is required.");
+    if (content.length > NOTE_MAX_LENGTH) return problem("content", `content can be at most ${NOTE_MAX_LENGTH} characters.`);
+
+    return {
+        content,
+        ...(text(item.note_id) ? { note_id: text(item.note_id) } : {}),
+        ...(text(item.created_at) ? { created_at: text(item.created_at) } : {}),
+    };
+}
+
+function parseCustomField(item: JsonObject) {
+    const id = text(item.custom_field_id);
+    if (!id) return problem("custom_field_id", "custom_field_id is required.");
+
+    const value = item.value;
+    if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+        return problem("value", "value must be a string.");
+    }
+    return { custom_field_id: id, value: String(value).trim() };
+}
+
+function parseSmsConsent(item: JsonObject) {
+    const permission = text(item.sms_consent_permission);
+    if (!isOneOf(permission, SMS_CONSENT_PERMISSIONS)) {
+        return problem("sms_consent_permission", `sms_consent_permission must be one of: ${SMS_CONSENT_PERMISSIONS.join(", ")}.`);
+    }
+
+    const consentType = text(item.consent_type);
+    if (!isOneOf(consentType, SMS_CONSENT_TYPES)) {
+        return problem("consent_type", `consent_type must be one of: ${SMS_CONSENT_TYPES.join(", ")}.`);
+    }
+
+    return { sms_consent_permission: permission, consent_type: consentType };
+}
+
+function isOneOf<T extends string>(value: unknown, allowed: readonly T[]): value is T {
+    return typeof value === "string" && (allowed as readonly string[]).includes(value);
+}
+
+// Arrays may arrive as arrays or JSON strings (form textareas). Empty objects (the
+// form's "[{}]" placeholder) are dropped. Returns null unless it is an array of objects.
+function jsonArray(value: unknown): JsonObject[] | null {
+    let parsed = value;
+    if (value == null || value === "") return [];
+    if (typeof value === "string") {
+        try {
+            parsed = JSON.parse(value);
+        } catch {
+            return null;
+        }
+    }
+    if (!Array.isArray(parsed)) return null;
+    if (!parsed.every((item) => typeof item === "object" && item !== null && !Array.isArray(item))) return null;
+
+    return (parsed as JsonObject[]).filter((item) => Object.keys(item).length > 0);
+}
+
+// IDs as an array or a CSV string
+function idList(value: unknown): string[] {
+    const parts = Array.isArray(value) ? value.map(String) : typeof value === "string" ? value.split(",") : [];
+    return parts.map((s) => s.trim()).filter(Boolean);
+}
@@ -0,0 +1,36 @@
+import { ccFetchAll } from "@/lib/constantContact";
+import type { ContactPayload } from "@/lib/contactSchema";
+import { validateCustomFieldValues } from "@/lib/customFields";
+import type { CustomFieldDefinition } from "@/types/constantContact";
+
+/**
+ * Server-side half of custom field validation: loads the account's field
+ * definitions from Constant Contact and checks a contact payload against them.
+ */
+
+export async function fetchCustomFieldDefinitions(account: string): Promise<CustomFieldDefinition[]> {
+    return ccFetchAll<CustomFieldDefinition>(
+        { account, path: "/contact_custom_fields", query: { limit: 100 } },
+        "custom_fields"
+    );
+}
+
+/**
+ * Validate and normalize `payload.custom_fields` in place.
+ * Returns a 400 body ({ error, fields } keyed by field path), or null when the payload is fine.
+ */
+export async function checkContactCustomFields(
+    payload: ContactPayload,
+    account: string
+): Promise<{ error: string; fields: Record<string, string> } | null> {
+    const entries = payload.custom_fields;
+    if (!entries || entries.length === 0) return null;
+
+    const result = validateCustomFieldValues(entries, await fetchCustomFieldDefinitions(account));
+    if (!result.ok) {
+        return { error: result.error, fields: { [result.path]: result.message } };
+    }
+
+    payload.custom_fields = result.custom_fields;
+    return null;
+}
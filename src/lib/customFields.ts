@@ -0,0 +1,158 @@
+import type { CustomFieldDefinition, CustomFieldType } from "@/types/constantContact";
+
+/**
+ * Custom field definition + value rules. No server imports, so the create form
+ * can share them with the API routes.
+ */
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ["string", "date", "number", "currency", "boolean"];
+
+export type CustomFieldPayload = {
+    label: string;
+    type: CustomFieldType;
+};
+
+export type CustomFieldPayloadResult =
+    | { ok: true; payload: CustomFieldPayload }
+    | { ok: false; error: string };
+
+/**
+ * Validate a custom field definition body (POST/PUT /api/custom_fields).
+ */
+export function buildCustomFieldPayload(input: unknown): CustomFieldPayloadResult {
+    const body = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+    const label = typeof body.label === "string" ? body.label.trim() : "";
+    if (!label) {
+        return fail("label is required.");
+    }
+    if (label.length > 50) {
+        return fail("label can be at most 50 characters.");
+    }
+
+    const type = typeof body.type === "string" ? body.type.trim() : "";
+    if (!isCustomFieldType(type)) {
+        return fail(`type must be one of: ${CUSTOM_FIELD_TYPES.join(", ")}.`);
+    }
+
+    return { ok: true, payload: { label, type } };
+}
+
+/**
+ * Check a value against its field type. Returns the normalized string value
+ * Constant Contact should receive, or an error message.
+ */
+export function normalizeCustomFieldValue(
+    type: CustomFieldType,
+    raw: unknown
+): { ok: true; value: string } | { ok: false; error: string } {
+    const value =
+        typeof raw === "string"
+            ? raw.trim()
+            : typeof raw === "number" || typeof raw === "boolean"
+                ? String(raw)
+                : "";
+    if (!value) return { ok: false, error: "value is required." };
+
+    switch (type) {
+        case "string":
+            return value.length > 255
+                ? { ok: false, error: "value can be at most 255 characters." }
+                : { ok: true, value };
+        case "date": {
+            const iso = toIsoDate(value);
+            return iso ? { ok: true, value: iso } : { ok: false, error: "value must be a date (YYYY-MM-DD or MM/DD/YYYY)." };
+        }
+        case "number":
+            return Number.isFinite(Number(value))
+                ? { ok: true, value }
+                : { ok: false, error: "value must be a number." };
+        case "currency":
+            return /^-?\d+(\.\d{1,2})?$/.test(value)
+                ? { ok: true, value }
+                : { ok: false, error: "value must be an amount with at most 2 decimals." };
+        case "boolean":
+            return value === "true" || value === "false"
+                ? { ok: true, value }
+                : { ok: false, error: "value must be true or false." };
+    }
+}
+
+export type CustomFieldValuesResult =
+    | { ok: true; custom_fields: { custom_field_id: string; value: string }[] }
+    // error: the 400 summary; path and message: the field that failed and its own message
+    | { ok: false; error: string; path: string; message: string };
+
+/**
+ * Validate contact custom_fields entries against the account's definitions.
+ * Returns the normalized entries or the first error found.
+ */
+export function validateCustomFieldValues(
+    entries: unknown[],
+    definitions: CustomFieldDefinition[]
+): CustomFieldValuesResult {
+    const byId = new Map(definitions.map((d) => [d.custom_field_id, d]));
+    const customFields: { custom_field_id: string; value: string }[] = [];
+
+    for (const [i, entry] of entries.entries()) {
+        const id = (entry as { custom_field_id?: unknown })?.custom_field_id;
+        const idPath = `custom_fields[${i}].custom_field_id`;
+        if (typeof id !== "string" || !id.trim()) {
+            return {
+                ok: false,
+                error: `Bad request: ${idPath} is required.`,
+                path: idPath,
+                message: "custom_field_id is required.",
+            };
+        }
+
+        const def = byId.get(id.trim());
+        if (!def) {
+            const message = `custom_field_id "${id}" does not exist.`;
+            return { ok: false, error: `Bad request: custom_fields[${i}].${message}`, path: idPath, message };
+        }
+
+        const result = normalizeCustomFieldValue(def.type, (entry as { value?: unknown }).value);
+        if (!result.ok) {
+            return {
+                ok: false,
+                error: `Bad request: custom_fields[${i}] (${def.label}): ${result.error}`,
+                path: `custom_fields[${i}].value`,
+                message: result.error,
+            };
+        }
+
+        customFields.push({ custom_field_id: def.custom_field_id, value: result.value });
+    }
+
+    return { ok: true, custom_fields: customFields };
+}
+
+export function isCustomFieldType(v: string): v is CustomFieldType {
+    return (CUSTOM_FIELD_TYPES as string[]).includes(v);
+}
+
+/* ---------------- helpers ---------------- */
+
+function toIsoDate(v: string): string | null {
+    let y: number, m: number, d: number;
+
+    const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(v);
+    const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(v);
+    if (iso) {
+        [y, m, d] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else if (us) {
+        [m, d, y] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    } else {
+        return null;
+    }
+
+    const date = new Date(Date.UTC(y, m - 1, d));
+    if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) {
+        return null;
+    }
+    return date.toISOString().slice(0, 10);
+}
+
+function fail(message: string): { ok: false; error: string } {
+    return { ok: false, error: `Bad request: ${message}` };
+}
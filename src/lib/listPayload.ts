@@ -0,0 +1,47 @@
+/**
+ * Body validation for contact list create/rename.
+ * Used by POST /api/lists and PUT /api/lists/[id].
+ */
+
+export type ListPayload = {
+    name: string;
+    description?: string;
+    favorite?: boolean;
+};
+
+export type ListPayloadResult =
+    | { ok: true; payload: ListPayload }
+    | { ok: false; error: string };
+
+export function buildListPayload(input: unknown): ListPayloadResult {
+    const body = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+        return fail("name is required.");
+    }
+    if (name.length > 255) {
+        return fail("name can be at most 255 characters.");
+    }
+
+    const payload: ListPayload = { name };
+
+    if (body.description != null) {
+        if (typeof body.description !== "string") {
+            return fail("description must be a string.");
+        }
+        payload.description = body.description.trim();
+    }
+
+    if (body.favorite != null) {
+        if (typeof body.favorite !== "boolean") {
+            return fail("favorite must be true or false.");
+        }
+        payload.favorite = body.favorite;
+    }
+
+    return { ok: true, payload };
+}
+
+function fail(message: string): ListPayloadResult {
+    return { ok: false, error: `Bad request: ${message}` };
+}
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeConstantContact, type FakeConstantContact } from "@/fake/constantContactServer";
+import { beginLogin, completeLogin, type PendingLogin } from "@/lib/oauth";
+
+// Runs the login flow against the in-memory fake's authorization server
+let fake: FakeConstantContact;
+
+beforeEach(() => {
+    fake = createFakeConstantContact();
+    vi.stubGlobal("fetch", vi.fn(fake.fetch));
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+// Follows the authorize redirect (the fake approves straight away) and returns its code
+async function authorize(): Promise<{ code: string; pending: PendingLogin }> {
+    const { url, pending } = beginLogin("http://localhost/api/auth/callback", "default");
+    const res = await fake.fetch(new Request(url));
+    const code = new URL(res.headers.get("location") ?? "").searchParams.get("code") ?? "";
+    return { code, pending };
+}
+
+describe("completeLogin", () => {
+    it("returns the tokens and who signed in", async () => {
+        const { code, pending } = await authorize();
+
+        const { tokens, connectedAs } = await completeLogin(code, pending);
+
+        expect(tokens.access_token).toEqual(expect.any(String));
+        expect(connectedAs).toBe("owner@example.org");
+    });
+
+    it("rejects an id_token with another nonce", async () => {
+        const { code, pending } = await authorize();
+
+        await expect(completeLogin(code, { ...pending, nonce: "other" })).rejects.toMatchObject({
+            message: "Login failed: id_token nonce does not match.",
+            status: 400,
+        });
+    });
+
+    it("rejects a token response without an id_token", async () => {
+        const { code, pending } = await authorize();
+        vi.stubGlobal(
+            "fetch",
+            vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+                const body = await (await fake.fetch(new Request(input, init))).json();
+                delete body.id_token;
+                return Response.json(body);
+            })
+        );
+
+        await expect(completeLogin(code, pending)).rejects.toMatchObject({
+            message: "Login failed: no id_token was returned, so the nonce could not be checked.",
+            status: 400,
+        });
+    });
+});
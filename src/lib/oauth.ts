@@ -0,0 +1,249 @@
+import { createHash, randomBytes } from "crypto";
+import type { StoredTokens } from "@/lib/tokenStore";
+
+/**
+ * Calls to the Constant Contact authorization server (token refresh, the
+ * OAuth device flow and the authorization code + PKCE flow).
+ * Both URLs can be overridden so a local stand-in can be used:
+ * - CC_AUTHZ_BASE_URL (default https://authz.constantcontact.com/oauth2/default/v1)
+ * - CC_TOKEN_URL (default `${CC_AUTHZ_BASE_URL}/token`)
+ */
+
+const DEFAULT_AUTHZ_BASE_URL = "https://authz.constantcontact.com/oauth2/default/v1";
+
+// offline_access is what gets us a refresh token
+const DEVICE_SCOPE = "contact_data offline_access";
+// openid + profile add an id_token, used for the nonce check and "connected as"
+const LOGIN_SCOPE = "contact_data offline_access openid profile";
+
+export type CcTokenResponse = {
+    access_token: string;
+    refresh_token?: string; // may be present depending on refresh token type
+    expires_in?: number;
+    token_type?: string;
+    id_token?: string; // only with the openid scope
+};
+
+export type DeviceAuthorization = {
+    device_code: string;
+    user_code: string;
+    verification_uri: string;
+    verification_uri_complete?: string;
+    expires_in: number;
+    // seconds to wait between polls
+    interval?: number;
+};
+
+// "pending" / "slow_down": keep polling (slow_down: add 5s to the interval)
+export type DevicePollResult =
+    | { status: "pending" | "slow_down" }
+    | { status: "authorized"; tokens: CcTokenResponse };
+
+export function authzBaseUrl(): string {
+    return (process.env.CC_AUTHZ_BASE_URL || DEFAULT_AUTHZ_BASE_URL).replace(/\/$/, "");
+}
+
+export function tokenUrl(): string {
+    return process.env.CC_TOKEN_URL || `${authzBaseUrl()}/token`;
+}
+
+export function clientId(): string {
+    const v = process.env.CC_CLIENT_ID;
+    if (!v) throw new Error("Missing environment variable: CC_CLIENT_ID");
+    return v;
+}
+
+/**
+ * POST a grant to the token endpoint. Failures throw with status/details
+ * like ccFetchJson; `details` is the OAuth error body ({ error, error_description }).
+ */
+export async function requestToken(
+    params: Record<string, string>,
+    fallbackMessage = "Token request failed"
+): Promise<CcTokenResponse> {
+    const json = await postForm(tokenUrl(), { ...params, client_id: clientId() }, fallbackMessage);
+
+    const tokenResp = (json ?? {}) as CcTokenResponse;
+    if (!tokenResp.access_token) {
+        throw new Error("Token request succeeded but no access_token was returned.");
+    }
+    return tokenResp;
+}
+
+/**
+ * Step 1 of the device flow: get a user_code for the user to approve in a browser.
+ */
+export async function startDeviceAuthorization(): Promise<DeviceAuthorization> {
+    const json = await postForm(
+        `${authzBaseUrl()}/device/authorize`,
+        { client_id: clientId(), scope: DEVICE_SCOPE },
+        "Device authorization failed"
+    );
+
+    if (!json?.device_code || !json?.user_code) {
+        throw new Error("Device authorization succeeded but no device_code was returned.");
+    }
+    return json as DeviceAuthorization;
+}
+
+/**
+ * Step 2 of the device flow: exchange the device_code once the user has approved.
+ * Terminal errors (expired_token, access_denied, ...) are thrown.
+ */
+export async function pollDeviceAuthorization(deviceCode: string): Promise<DevicePollResult> {
+    try {
+        const tokens = await requestToken({
+            grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+            device_code: deviceCode,
+        });
+        return { status: "authorized", tokens };
+    } catch (e) {
+        const code = (e as { details?: { error?: unknown } }).details?.error;
+        if (code === "authorization_pending") return { status: "pending" };
+        if (code === "slow_down") return { status: "slow_down" };
+        throw e;
+    }
+}
+
+export const LOGIN_COOKIE = "cc_oauth_login";
+
+// Per-login secrets, kept in an httpOnly cookie between /api/auth/login and /api/auth/callback
+export type PendingLogin = {
+    state: string;
+    nonce: string;
+    code_verifier: string;
+    redirect_uri: string;
+    // account ID the tokens are saved under
+    account_id: string;
+};
+
+/**
+ * Start the authorization code flow: fresh state, nonce and PKCE verifier,
+ * plus the authorize URL to send the browser to.
+ */
+export function beginLogin(redirectUri: string, accountId: string): { url: string; pending: PendingLogin } {
+    const pending: PendingLogin = {
+        state: randomToken(),
+        nonce: randomToken(),
+        code_verifier: randomToken(48),
+        redirect_uri: redirectUri,
+        account_id: accountId,
+    };
+
+    const url = new URL(`${authzBaseUrl()}/authorize`);
+    url.searchParams.set("client_id", clientId());
+    url.searchParams.set("redirect_uri", redirectUri);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("scope", LOGIN_SCOPE);
+    url.searchParams.set("state", pending.state);
+    url.searchParams.set("nonce", pending.nonce);
+    url.searchParams.set(
+        "code_challenge",
+        createHash("sha256").update(pending.code_verifier).digest("base64url")
+    );
+    url.searchParams.set("code_challenge_method", "S256");
+
+    return { url: url.toString(), pending };
+}
+
+/**
+ * Exchange the callback's code for tokens and check the id_token nonce.
+ * Returns the tokens and who signed in (email or name from the id_token, if any).
+ */
+export async function completeLogin(
+    code: string,
+    pending: PendingLogin
+): Promise<{ tokens: CcTokenResponse; connectedAs: string | null }> {
+    const tokens = await requestToken(
+        {
+            grant_type: "authorization_code",
+            code,
+            redirect_uri: pending.redirect_uri,
+            code_verifier: pending.code_verifier,
+        },
+        "Authorization code exchange failed"
+    );
+
+    // The id_token comes straight from the token endpoint over TLS, so its claims are
+    // trusted without a signature check (OIDC Core 3.1.3.7); the nonce ties it to this login.
+    // openid is always requested, so a response without one is rejected too.
+    if (!tokens.id_token) {
+        throw loginError("Login failed: no id_token was returned, so the nonce could not be checked.");
+    }
+    const claims = decodeJwtPayload(tokens.id_token);
+    if (claims?.nonce !== pending.nonce) {
+        throw loginError("Login failed: id_token nonce does not match.");
+    }
+
+    const connectedAs = [claims?.email, claims?.preferred_username, claims?.name].find(
+        (v): v is string => typeof v === "string" && v.length > 0
+    );
+
+    return { tokens, connectedAs: connectedAs ?? null };
+}
+
+/**
+ * Convert a token response for the token store. Long-lived refresh tokens are not
+ * returned again on refresh, so the previous one is kept.
+ */
+export function toStoredTokens(resp: CcTokenResponse, previousRefreshToken?: string): StoredTokens {
+    return {
+        access_token: resp.access_token,
+        refresh_token: resp.refresh_token || previousRefreshToken,
+        expires_at: resp.expires_in ? Date.now() + resp.expires_in * 1000 : undefined,
+    };
+}
+
+/* ---------------- helpers ---------------- */
+
+function loginError(message: string) {
+    const err = new Error(message) as Error & { status?: number };
+    err.status = 400;
+    return err;
+}
+
+function randomToken(bytes = 32) {
+    return randomBytes(bytes).toString("base64url");
+}
+
+function decodeJwtPayload(jwt: string): Record<string, unknown> | null {
+    const payload = jwt.split(".")[1];
+    if (!payload) return null;
+    return safeJson(Buffer.from(payload, "base64url").toString("utf8"));
+}
+
+async function postForm(url: string, params: Record<string, string>, fallbackMessage: string) {
+    const res = await fetch(url, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+            Accept: "application/json",
+        },
+        body: new URLSearchParams(params).toString(),
+        cache: "no-store",
+    });
+
+    const text = await res.text();
+    const json = text ? safeJson(text) : null;
+
+    if (!res.ok) {
+        const message =
+            (json && (json.error_description || json.error || json.message)) ||
+            `${fallbackMessage} (${res.status})`;
+        const err = new Error(message) as Error & { status?: number; details?: unknown; upstream?: boolean };
+        err.status = res.status;
+        err.upstream = true;
+        err.details = json ?? text;
+        throw err;
+    }
+
+    return json;
+}
+
+function safeJson(text: string) {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return null;
+    }
+}
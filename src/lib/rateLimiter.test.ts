@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DailyUsage, TokenBucket } from "@/lib/rateLimiter";
+
+beforeEach(() => {
+    vi.useFakeTimers({ now: Date.UTC(2026, 0, 1, 12) });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+// take() calls in order, recording which have resolved
+function takeAll(bucket: TokenBucket, n: number) {
+    const served: number[] = [];
+    for (let i = 0; i < n; i++) void bucket.take().then(() => served.push(i));
+    return served;
+}
+
+describe("TokenBucket", () => {
+    it("lets a burst through at once and queues the rest", async () => {
+        const bucket = new TokenBucket(2, 2);
+
+        const served = takeAll(bucket, 3);
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(served).toEqual([0, 1]);
+        expect(bucket.queued).toBe(1);
+    });
+
+    it("refills at ratePerSec", async () => {
+        const bucket = new TokenBucket(2, 1);
+
+        const served = takeAll(bucket, 3);
+        await vi.advanceTimersByTimeAsync(499);
+        expect(served).toEqual([0]);
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(served).toEqual([0, 1]);
+
+        await vi.advanceTimersByTimeAsync(500);
+        expect(served).toEqual([0, 1, 2]);
+    });
+
+    it("serves waiting callers in arrival order", async () => {
+        const bucket = new TokenBucket(10, 1);
+
+        const served = takeAll(bucket, 5);
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(served).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it("does not throttle when ratePerSec is 0", async () => {
+        const bucket = new TokenBucket(0, 1);
+
+        const served = takeAll(bucket, 50);
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(served).toHaveLength(50);
+        expect(bucket.queued).toBe(0);
+    });
+
+    it("treats a burst below 1 as 1", async () => {
+        const bucket = new TokenBucket(1, 0.5);
+
+        const served = takeAll(bucket, 2);
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(bucket.burst).toBe(1);
+        expect(served).toEqual([0, 1]);
+    });
+});
+
+describe("DailyUsage", () => {
+    it("throws a 429 once the quota is used up", () => {
+        const usage = new DailyUsage(2);
+        usage.reserve("default");
+        usage.reserve("other");
+
+        expect(() => usage.reserve("default")).toThrow(
+            expect.objectContaining({
+                status: 429,
+                retryAfterMs: 12 * 60 * 60 * 1000,
+                message: "Daily Constant Contact request quota reached (2); resets at 2026-01-02T00:00:00.000Z.",
+            })
+        );
+        expect(usage.snapshot()).toMatchObject({
+            date: "2026-01-01",
+            count: 2,
+            remaining: 0,
+            by_account: { default: 1, other: 1 },
+        });
+    });
+
+    it("starts a new count at UTC midnight", () => {
+        vi.setSystemTime(Date.UTC(2026, 0, 1, 23, 59, 59));
+        const usage = new DailyUsage(1);
+        usage.reserve("default");
+        expect(() => usage.reserve("default")).toThrow(expect.objectContaining({ status: 429 }));
+
+        vi.setSystemTime(Date.UTC(2026, 0, 2));
+        usage.reserve("default");
+
+        expect(usage.snapshot()).toMatchObject({
+            date: "2026-01-02",
+            count: 1,
+            remaining: 0,
+            resets_at: "2026-01-03T00:00:00.000Z",
+        });
+    });
+
+    it("counts without limiting when the quota is 0", () => {
+        const usage = new DailyUsage(0);
+        for (let i = 0; i < 5; i++) usage.reserve("default");
+
+        expect(usage.snapshot()).toMatchObject({ count: 5, quota: null, remaining: null });
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * Client-side throttling for Constant Contact's request limits: a per-second cap
+ * (token bucket with a FIFO queue, so bursts wait instead of failing) and a daily quota.
+ * Both are in-memory, so each server process counts on its own.
+ */
+
+export class TokenBucket {
+    readonly burst: number;
+    private tokens: number;
+    private lastRefill = Date.now();
+    private queue: (() => void)[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    // ratePerSec <= 0 disables throttling; burst is at least 1, or a request could never go out
+    constructor(
+        readonly ratePerSec: number,
+        burst: number
+    ) {
+        this.burst = Math.max(1, burst);
+        this.tokens = this.burst;
+    }
+
+    get queued() {
+        return this.queue.length;
+    }
+
+    /**
+     * Resolves once a request may be sent. Callers are served in arrival order.
+     */
+    take(): Promise<void> {
+        if (this.ratePerSec <= 0) return Promise.resolve();
+
+        return new Promise((resolve) => {
+            this.queue.push(resolve);
+            this.drain();
+        });
+    }
+
+    private drain() {
+        if (this.timer) return;
+
+        const now = Date.now();
+        this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSec);
+        this.lastRefill = now;
+
+        while (this.queue.length > 0 && this.tokens >= 1) {
+            this.tokens -= 1;
+            this.queue.shift()!();
+        }
+
+        if (this.queue.length > 0) {
+            const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSec) * 1000);
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                this.drain();
+            }, waitMs);
+        }
+    }
+}
+
+export type DailyUsageSnapshot = {
+    date: string; // UTC day, YYYY-MM-DD
+    count: number;
+    quota: number | null;
+    remaining: number | null;
+    resets_at: string;
+    by_account: Record<string, number>;
+};
+
+/**
+ * Requests sent per UTC day. Once the quota is used up, reserve() throws a 429 right
+ * away rather than queueing like TokenBucket: the wait would last until UTC midnight.
+ */
+export class DailyUsage {
+    private date = utcDate();
+    private count = 0;
+    private byAccount = new Map<string, number>();
+
+    // quota <= 0 disables the limit (requests are still counted)
+    constructor(readonly quota: number) {}
+
+    reserve(account: string) {
+        this.rollOver();
+
+        if (this.quota > 0 && this.count >= this.quota) {
+            const err = new Error(
+                `Daily Constant Contact request quota reached (${this.quota}); resets at ${nextUtcMidnight()}.`
+            ) as Error & { status?: number; details?: unknown; retryAfterMs?: number };
+            err.status = 429;
+            err.details = this.snapshot();
+            // Lets callers (e.g. ccFetchJson's retry policy) see that waiting won't help soon
+            err.retryAfterMs = Date.parse(nextUtcMidnight()) - Date.now();
+            throw err;
+        }
+
+        this.count++;
+        this.byAccount.set(account, (this.byAccount.get(account) ?? 0) + 1);
+    }
+
+    snapshot(): DailyUsageSnapshot {
+        this.rollOver();
+        return {
+            date: this.date,
+            count: this.count,
+            quota: this.quota > 0 ? this.quota : null,
+            remaining: this.quota > 0 ? Math.max(0, this.quota - this.count) : null,
+            resets_at: nextUtcMidnight(),
+            by_account: Object.fromEntries(this.byAccount),
+        };
+    }
+
+    private rollOver() {
+        const today = utcDate();
+        if (today !== this.date) {
+            this.date = today;
+            this.count = 0;
+            this.byAccount.clear();
+        }
+    }
+}
+
+/* ---------------- helpers ---------------- */
+
+function utcDate() {
+    return new Date().toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight() {
+    const d = new Date();
+    d.setUTCHours(24, 0, 0, 0);
+    return d.toISOString();
+}
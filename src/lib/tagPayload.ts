@@ -0,0 +1,39 @@
+/**
+ * Body validation for tag create/rename.
+ * Used by POST /api/tags and PUT /api/tags/[id].
+ */
+
+export type TagPayload = {
+    name: string;
+    tag_source?: string;
+};
+
+export type TagPayloadResult =
+    | { ok: true; payload: TagPayload }
+    | { ok: false; error: string };
+
+export function buildTagPayload(input: unknown): TagPayloadResult {
+    const body = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+        return fail("name is required.");
+    }
+    if (name.length > 255) {
+        return fail("name can be at most 255 characters.");
+    }
+
+    const payload: TagPayload = { name };
+
+    if (body.tag_source != null) {
+        if (typeof body.tag_source !== "string" || !body.tag_source.trim()) {
+            return fail("tag_source must be a non-empty string.");
+        }
+        payload.tag_source = body.tag_source.trim();
+    }
+
+    return { ok: true, payload };
+}
+
+function fail(message: string): TagPayloadResult {
+    return { ok: false, error: `Bad request: ${message}` };
+}
@@ -0,0 +1,43 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileTokenStore } from "@/lib/tokenStore";
+
+let dir: string;
+let file: string;
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "cc-tokens-"));
+    file = path.join(dir, "tokens.json");
+});
+
+afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("FileTokenStore", () => {
+    it("keeps other accounts when saving one", async () => {
+        const store = new FileTokenStore(file);
+        await store.save("a", { access_token: "a1", refresh_token: "ra" });
+        await store.save("b", { access_token: "b1" });
+
+        expect(await store.load("a")).toEqual({ access_token: "a1", refresh_token: "ra" });
+        expect((await store.list()).sort()).toEqual(["a", "b"]);
+    });
+
+    it("reads the single-account format as the default account", async () => {
+        await fs.writeFile(file, JSON.stringify({ access_token: "t", refresh_token: "r" }));
+
+        expect(await new FileTokenStore(file).load("default")).toEqual({ access_token: "t", refresh_token: "r" });
+    });
+
+    it.each([["{ not json"], ['{"something":"else"}']])("refuses to overwrite a corrupt file (%s)", async (text) => {
+        await fs.writeFile(file, text);
+        const store = new FileTokenStore(file);
+
+        await expect(store.load("a")).rejects.toThrow(/corrupt/);
+        await expect(store.save("a", { access_token: "new" })).rejects.toThrow(/corrupt/);
+        expect(await fs.readFile(file, "utf8")).toBe(text);
+    });
+});
@@ -0,0 +1,152 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { DEFAULT_ACCOUNT_ID } from "@/lib/accounts";
+
+/**
+ * Persistence for Constant Contact OAuth tokens, so refreshed access tokens and
+ * rotated refresh tokens survive restarts and cold starts. Tokens are keyed by
+ * account ID (see accounts.ts).
+ */
+
+export type StoredTokens = {
+    access_token: string;
+    refresh_token?: string;
+    // epoch ms when access_token expires (from expires_in), if known
+    expires_at?: number;
+    // who authorized the app (from the login id_token), for display only
+    connected_as?: string;
+};
+
+export interface TokenStore {
+    load(accountId: string): Promise<StoredTokens | null>;
+    save(accountId: string, tokens: StoredTokens): Promise<void>;
+    // IDs of every account with stored tokens
+    list(): Promise<string[]>;
+}
+
+// File layout; a bare StoredTokens object (single-account format) is read as the default account
+type TokenFile = { accounts: Record<string, StoredTokens> };
+
+/**
+ * Process-local store. Tokens are lost on restart; useful for tests and for
+ * deployments that only ever use the env tokens.
+ */
+export class MemoryTokenStore implements TokenStore {
+    private tokens = new Map<string, StoredTokens>();
+
+    constructor(initial: Record<string, StoredTokens> = {}) {
+        for (const [id, tokens] of Object.entries(initial)) this.tokens.set(id, { ...tokens });
+    }
+
+    async load(accountId: string) {
+        const tokens = this.tokens.get(accountId);
+        return tokens ? { ...tokens } : null;
+    }
+
+    async save(accountId: string, tokens: StoredTokens) {
+        this.tokens.set(accountId, { ...tokens });
+    }
+
+    async list() {
+        return [...this.tokens.keys()];
+    }
+}
+
+/**
+ * JSON file store. Writes go to a temp file in the same directory, are fsynced,
+ * then renamed over the target, so a crash mid-write never leaves a torn file
+ * (and never loses a rotated refresh token that was already accepted).
+ * All accounts share one file; saves are serialized so concurrent refreshes of
+ * different accounts don't overwrite each other.
+ * A corrupt file is reported, never overwritten.
+ * Safe for a single process; several processes sharing one file need a real database.
+ */
+export class FileTokenStore implements TokenStore {
+    private writeChain: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string) {}
+
+    async load(accountId: string): Promise<StoredTokens | null> {
+        const file = await this.read();
+        return file.accounts[accountId] ?? null;
+    }
+
+    async list() {
+        return Object.keys((await this.read()).accounts);
+    }
+
+    save(accountId: string, tokens: StoredTokens) {
+        const write = this.writeChain.then(async () => {
+            const file = await this.read();
+            file.accounts[accountId] = tokens;
+            await this.write(file);
+        });
+        // Keep the chain going after a failed write; the caller still sees the error
+        this.writeChain = write.catch(() => undefined);
+        return write;
+    }
+
+    private async read(): Promise<TokenFile> {
+        let text: string;
+        try {
+            text = await fs.readFile(this.filePath, "utf8");
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === "ENOENT") return { accounts: {} };
+            throw e;
+        }
+
+        let parsed: unknown = null;
+        try {
+            parsed = JSON.parse(text);
+        } catch {
+            // reported below
+        }
+        const data = parsed as Partial<TokenFile & StoredTokens> | null;
+        if (data?.accounts && typeof data.accounts === "object") return data as TokenFile;
+        if (typeof data?.access_token === "string") {
+            return { accounts: { [DEFAULT_ACCOUNT_ID]: data as StoredTokens } };
+        }
+
+        // Never treat it as empty: the next save would overwrite every other account's
+        // (possibly already rotated) refresh token
+        throw new Error(
+            `Token file ${this.filePath} is corrupt or in an unknown format. Fix or remove it; it has been left untouched.`
+        );
+    }
+
+    private async write(file: TokenFile) {
+        const dir = path.dirname(this.filePath);
+        await fs.mkdir(dir, { recursive: true });
+
+        const tmp = path.join(dir, `.${path.basename(this.filePath)}.${process.pid}.${Date.now()}.tmp`);
+        const handle = await fs.open(tmp, "w", 0o600);
+        try {
+            await handle.writeFile(JSON.stringify(file, null, 2));
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+
+        try {
+            await fs.rename(tmp, this.filePath);
+        } catch (e) {
+            await fs.rm(tmp, { force: true });
+            throw e;
+        }
+    }
+}
+
+/**
+ * Build the store selected by CC_TOKEN_STORE ("file" | "memory", default "file").
+ * The file store writes to CC_TOKEN_FILE (default ".cc-tokens.json" in the working directory).
+ */
+export function createTokenStoreFromEnv(): TokenStore {
+    const kind = (process.env.CC_TOKEN_STORE ?? "file").trim().toLowerCase();
+
+    if (kind === "memory") return new MemoryTokenStore();
+    if (kind === "file") {
+        return new FileTokenStore(path.resolve(process.env.CC_TOKEN_FILE || ".cc-tokens.json"));
+    }
+
+    throw new Error(`Invalid CC_TOKEN_STORE "${kind}" (expected "file" or "memory").`);
+}
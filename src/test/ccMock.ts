@@ -0,0 +1,18 @@
+import { vi } from "vitest";
+
+/**
+ * Shared Constant Contact stub for route tests. Import this before the route under test:
+ * ccFetchJson, ccFetchAll and ccFetchJsonUntilReady become vi.fn() stubs (use vi.mocked()
+ * on the client's exports to program them) and the rest of the client stays real.
+ */
+vi.mock("@/lib/constantContact", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("@/lib/constantContact")>()),
+    ccFetchJson: vi.fn(),
+    ccFetchAll: vi.fn(),
+    ccFetchJsonUntilReady: vi.fn(),
+}));
+
+// An error shaped like the ones ccFetchJson throws for Constant Contact error responses
+export function upstreamError(status: number, message: string, details: unknown) {
+    return Object.assign(new Error(message), { status, details, upstream: true });
+}
@@ -0,0 +1,33 @@
+/**
+ * Error body returned by every /api route on a 4xx/5xx (built by lib/apiError.ts).
+ * Safe to import from client components.
+ */
+
+/**
+ * Stable, machine-readable error codes. Match on these rather than on `error` text.
+ */
+export type ApiErrorCode =
+    | "bad_request" // 400: invalid query or body; see `fields`
+    | "unauthorized" // 401: Constant Contact rejected the token even after a refresh
+    | "forbidden" // 403
+    | "not_found" // 404: unknown resource, or the account is not connected
+    | "conflict" // 409: e.g. the email address is already in use
+    | "rate_limited" // 429: Constant Contact's limit or our daily quota
+    | "upstream_error" // 5xx from Constant Contact
+    | "internal_error"; // anything else (missing configuration, bugs)
+
+// Field path into the request body (e.g. "email_address.permission_to_send", "phone_numbers[1].kind")
+// → messages for that field. Our validation and parsed Constant Contact errors use the same paths.
+export type ApiFieldErrors = Record<string, string[]>;
+
+export type ApiErrorResponse = {
+    // Human-readable summary (the first problem); fine to show as is
+    error: string;
+    code: ApiErrorCode;
+    status: number;
+    // Also sent as the X-Request-Id header and logged with server errors
+    request_id: string;
+    fields?: ApiFieldErrors;
+    // Raw upstream body or retry info, for debugging only: the shape is not stable
+    details?: unknown;
+};
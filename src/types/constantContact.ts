@@ -1,14 +1,267 @@
-export type Contact = {
-    contact_id: string;
+/* ---------------- contacts ---------------- */
+
+export type ContactSource = "Account" | "Contact";
+
+export type PermissionToSend =
+    | "explicit"
+    | "implicit"
+    | "not_set"
+    | "pending_confirmation"
+    | "temp_hold"
+    | "unsubscribed";
+
+export type EmailAddress = {
+    address: string;
+    permission_to_send: PermissionToSend;
+    created_at?: string;
+    updated_at?: string;
+    opt_in_source?: ContactSource;
+    opt_in_date?: string;
+    opt_out_source?: ContactSource;
+    opt_out_date?: string;
+    opt_out_reason?: string;
+    confirm_status?: "confirmed" | "no_confirmation_required" | "unconfirmed" | "off";
+};
+
+export type SmsConsentPermission = "explicit" | "not_set" | "pending_confirmation" | "unsubscribed";
+
+export type SmsConsentType = "promotional_sms";
+
+export type SmsConsent = {
+    sms_consent_permission: SmsConsentPermission;
+    consent_type: SmsConsentType;
+    opt_in_date?: string;
+    opt_out_date?: string;
+    advertised_frequency?: string;
+    advertised_interval?: string;
+    created_at?: string;
+    updated_at?: string;
+};
+
+export type SmsChannel = {
+    sms_channel_id?: string;
+    sms_address?: string; // national number, without the dial code
+    dial_code?: string;
+    country_code?: string;
+    full_sms_address: string; // E.164, e.g. +15125551234
+    sms_channel_consents: SmsConsent[];
+};
+
+export type PhoneNumberKind = "home" | "work" | "mobile" | "other";
+
+export type PhoneNumber = {
+    phone_number_id?: string;
+    phone_number: string;
+    kind: PhoneNumberKind;
+    created_at?: string;
+    updated_at?: string;
+};
+
+export type StreetAddressKind = "home" | "work" | "other";
+
+export type StreetAddress = {
+    street_address_id?: string;
+    kind: StreetAddressKind;
+    street?: string;
+    city?: string;
+    state?: string;
+    postal_code?: string;
+    country?: string;
+    created_at?: string;
+    updated_at?: string;
+};
+
+export type ContactNote = {
+    note_id?: string;
+    created_at?: string;
+    content: string;
+};
+
+export type ContactCustomField = {
+    custom_field_id: string;
+    value: string;
+};
+
+// list_memberships and taggings are plain IDs
+export type ListMembership = string;
+export type Tagging = string;
+
+// Scalar fields shared by every variant
+type ContactProfile = {
     first_name?: string;
     last_name?: string;
-    email_address?: { address?: string };
-    phone_numbers?: { phone_number?: string }[];
-    street_addresses?: { street?: string; city?: string; state?: string; postal_code?: string }[];
+    job_title?: string;
+    company_name?: string;
+    birthday_month?: number;
+    birthday_day?: number;
+    anniversary?: string;
+};
+
+/**
+ * A contact as read from GET /contacts and GET /contacts/{id} (and returned by
+ * POST/PUT). Sub-resources are only present when asked for with `include`.
+ */
+export type Contact = ContactProfile & {
+    contact_id: string;
+    email_address?: EmailAddress;
+    sms_channel?: SmsChannel;
+    create_source?: ContactSource;
+    update_source?: ContactSource;
+    created_at?: string;
+    updated_at?: string;
+    deleted_at?: string;
+    phone_numbers?: PhoneNumber[];
+    street_addresses?: StreetAddress[];
+    notes?: ContactNote[];
+    custom_fields?: ContactCustomField[];
+    list_memberships?: ListMembership[];
+    taggings?: Tagging[];
+};
+
+// Body fields for POST /contacts and PUT /contacts/{id}: no server-assigned IDs or timestamps
+export type ContactWriteFields = ContactProfile & {
+    email_address?: Pick<EmailAddress, "address" | "permission_to_send">;
+    sms_channel?: {
+        full_sms_address: string;
+        sms_channel_consents: Pick<SmsConsent, "sms_consent_permission" | "consent_type">[];
+    };
+    phone_numbers?: Pick<PhoneNumber, "phone_number" | "kind">[];
+    street_addresses?: Omit<StreetAddress, "street_address_id" | "created_at" | "updated_at">[];
+    notes?: ContactNote[];
+    custom_fields?: ContactCustomField[];
+    list_memberships?: ListMembership[];
+    taggings?: Tagging[];
+};
+
+export type ContactCreateRequest = ContactWriteFields & { create_source: ContactSource };
+
+// PUT is a full replacement: omitted fields are cleared
+export type ContactUpdateRequest = ContactWriteFields & { update_source: ContactSource };
+
+/**
+ * Body for POST /contacts/sign_up_form, which creates the contact or updates the one
+ * with this email address. Contacts added this way have explicit permission, and
+ * list_memberships are added to the contact's lists (never removed).
+ */
+export type ContactSignUpRequest = ContactProfile & {
+    email_address: string;
+    phone_number?: string;
+    street_address?: Omit<StreetAddress, "street_address_id" | "created_at" | "updated_at">;
+    sms_channel?: ContactWriteFields["sms_channel"];
+    custom_fields?: ContactCustomField[];
+    list_memberships: ListMembership[];
+    taggings?: Tagging[];
+    notes?: ContactNote[];
+};
+
+export type ContactSignUpResponse = {
+    contact_id: string;
+    action: "created" | "updated";
+};
+
+/* ---------------- paging ---------------- */
+
+export type PagingLinks = {
+    self?: { href: string };
+    next?: { href: string };
 };
 
 export type ContactsResponse = {
     contacts: Contact[];
-    // paging fields vary; keep flexible
-    _links?: unknown;
+    contacts_count?: number;
+    _links?: PagingLinks;
+    // Added by GET /api/contacts: cursor for the next page, null on the last page
+    next_cursor?: string | null;
+};
+
+/* ---------------- lists, tags, custom fields, activities ---------------- */
+
+export type ContactList = {
+    list_id: string;
+    name: string;
+    description?: string;
+    favorite?: boolean;
+    created_at?: string;
+    updated_at?: string;
+    membership_count?: number;
+};
+
+export type ContactListsResponse = {
+    lists: ContactList[];
+    lists_count?: number;
+    _links?: PagingLinks;
+    next_cursor?: string | null;
+};
+
+export type ContactTag = {
+    tag_id: string;
+    name: string;
+    tag_source?: string;
+    contacts_count?: number;
+    created_at?: string;
+    updated_at?: string;
+};
+
+export type ContactTagsResponse = {
+    tags: ContactTag[];
+    tags_count?: number;
+    _links?: PagingLinks;
+    next_cursor?: string | null;
+};
+
+export type CustomFieldType = "string" | "date" | "number" | "currency" | "boolean";
+
+export type CustomFieldDefinition = {
+    custom_field_id: string;
+    label: string;
+    name?: string;
+    type: CustomFieldType;
+    created_at?: string;
+    updated_at?: string;
+};
+
+export type CustomFieldsResponse = {
+    custom_fields: CustomFieldDefinition[];
+    _links?: PagingLinks;
+    next_cursor?: string | null;
+};
+
+export type ActivityState =
+    | "initialized"
+    | "processing"
+    | "completed"
+    | "cancelled"
+    | "failed"
+    | "timed_out";
+
+export type ActivityStatus = {
+    items_total_count?: number;
+    items_completed_count?: number;
+    person_count?: number;
+    correct_count?: number;
+    error_count?: number;
+    list_count?: number;
+};
+
+export type Activity = {
+    activity_id: string;
+    state: ActivityState;
+    created_at?: string;
+    updated_at?: string;
+    started_at?: string;
+    completed_at?: string;
+    percent_done?: number;
+    activity_errors?: string[];
+    status?: ActivityStatus;
+    _links?: {
+        self?: { href: string };
+        // e.g. the export file for contact_exports activities
+        results?: { href: string };
+    };
+};
+
+export type ActivitiesResponse = {
+    activities: Activity[];
+    _links?: PagingLinks;
+    next_cursor?: string | null;
 };
@@ -0,0 +1,22 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    resolve: {
+        alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+    },
+    test: {
+        environment: "node",
+        include: ["src/**/*.test.ts"],
+        // Route handlers read these lazily; keep tests off any real account and token file
+        env: {
+            CC_BASE_URL: "https://cc.test/v3",
+            CC_AUTHZ_BASE_URL: "https://cc.test/oauth2/default/v1",
+            CC_CLIENT_ID: "test-client",
+            CC_TOKEN_STORE: "memory",
+            CC_ACCESS_TOKEN: "",
+            CC_REFRESH_TOKEN: "",
+            CC_RATE_LIMIT_PER_SEC: "0",
+        },
+    },
+});